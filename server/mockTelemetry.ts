@@ -0,0 +1,90 @@
+// Local stand-in for the analytics endpoint. Point the app at it with
+// VITE_TELEMETRY_URL=http://localhost:8788/events.
+//
+//   npm run telemetry:mock
+//   TELEMETRY_FAIL_RATE=0.5 npm run telemetry:mock   # exercise retries
+//
+// GET /events returns everything received so far; DELETE /events clears it.
+import { createServer, type Server } from "node:http";
+import { pathToFileURL } from "node:url";
+import type { TelemetryEvent } from "../src/types/game.types";
+
+export const DEFAULT_TELEMETRY_MOCK_PORT = 8788;
+
+export interface MockTelemetryOptions {
+  port?: number;
+  failRate?: number; // share of uploads answered with 503
+}
+
+export const startMockTelemetry = ({
+  port = DEFAULT_TELEMETRY_MOCK_PORT,
+  failRate = 0,
+}: MockTelemetryOptions = {}): Server => {
+  const received: TelemetryEvent[] = [];
+
+  const server = createServer((request, response) => {
+    response.setHeader("Access-Control-Allow-Origin", "*");
+    response.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    response.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE");
+
+    if (request.url !== "/events") {
+      response.writeHead(404).end();
+      return;
+    }
+
+    switch (request.method) {
+      case "OPTIONS":
+        response.writeHead(204).end();
+        return;
+      case "GET":
+        response
+          .writeHead(200, { "Content-Type": "application/json" })
+          .end(JSON.stringify(received));
+        return;
+      case "DELETE":
+        received.length = 0;
+        response.writeHead(204).end();
+        return;
+      case "POST":
+        break;
+      default:
+        response.writeHead(405).end();
+        return;
+    }
+
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      if (Math.random() < failRate) {
+        console.log("✗ simulated outage (503)");
+        response.writeHead(503).end();
+        return;
+      }
+
+      try {
+        const { events } = JSON.parse(body) as { events: TelemetryEvent[] };
+        if (!Array.isArray(events)) throw new Error("events must be an array");
+        received.push(...events);
+        console.log(
+          `✓ ${events.length} events: ${events.map((e) => e.name).join(", ")}`
+        );
+        response.writeHead(204).end();
+      } catch (error) {
+        console.log(`✗ bad batch: ${(error as Error).message}`);
+        response.writeHead(400).end();
+      }
+    });
+  });
+
+  server.listen(port);
+  return server;
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.TELEMETRY_PORT) || DEFAULT_TELEMETRY_MOCK_PORT;
+  startMockTelemetry({
+    port,
+    failRate: Number(process.env.TELEMETRY_FAIL_RATE) || 0,
+  });
+  console.log(`Mock telemetry endpoint on http://localhost:${port}/events`);
+}
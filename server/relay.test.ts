@@ -0,0 +1,276 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { AddressInfo } from "node:net";
+import { WebSocket, type WebSocketServer } from "ws";
+import { startRelay } from "./relay";
+import type {
+  GameRules,
+  LevelResult,
+  RaceClientMessage,
+  RaceServerMessage,
+} from "../src/types/game.types";
+import {
+  RACE_PROTOCOL_VERSION,
+  encodeMessage,
+  parseServerMessage,
+} from "../src/utils/raceProtocol";
+
+type ServerMessage<T extends RaceServerMessage["type"]> = Extract<
+  RaceServerMessage,
+  { type: T }
+>;
+
+// Spelled out because the rules module reads browser storage
+const RULES: GameRules = {
+  skipPenaltyMs: 30000,
+  skipDelayMs: 5000,
+  allowSkip: true,
+  rounds: 2,
+  levelTimeLimitMs: null,
+  timeoutPenaltyMs: 15000,
+  mistakePenaltyMs: 0,
+  introClock: "paused",
+};
+
+const SETUP = {
+  seed: 1,
+  gameIds: ["color-match", "speed-tap"],
+  difficulty: "normal" as const,
+  rules: RULES,
+};
+
+const RESULT: LevelResult = {
+  gameId: "color-match",
+  difficulty: "normal",
+  completed: true,
+  skipped: false,
+  timedOut: false,
+  timeSpent: 1200,
+  startedAt: 0,
+  endedAt: 1200,
+  penaltyTime: 0,
+  hits: 3,
+  mistakes: 0,
+};
+
+let server: WebSocketServer;
+let url: string;
+
+beforeAll(async () => {
+  server = startRelay({ port: 0 });
+  await new Promise((resolve) => server.once("listening", resolve));
+  url = `ws://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.clients.forEach((socket) => socket.terminate());
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const connect = async () => {
+  const socket = new WebSocket(url);
+  const inbox: RaceServerMessage[] = [];
+  let notify = (): void => {};
+  socket.on("message", (data) => {
+    const message = parseServerMessage(data.toString());
+    if (!message) return;
+    inbox.push(message);
+    notify();
+  });
+  const closed = new Promise((resolve) => socket.once("close", resolve));
+  await new Promise((resolve, reject) => {
+    socket.once("open", resolve);
+    socket.once("error", reject);
+  });
+
+  // Resolves with the first matching message, dropping the ones before it
+  const receive = <T extends RaceServerMessage["type"]>(
+    type: T,
+    match: (message: ServerMessage<T>) => boolean = () => true
+  ): Promise<ServerMessage<T>> =>
+    new Promise((resolve) => {
+      const check = (): void => {
+        while (inbox.length > 0) {
+          const message = inbox.shift() as RaceServerMessage;
+          if (message.type === type && match(message as ServerMessage<T>)) {
+            notify = () => {};
+            resolve(message as ServerMessage<T>);
+            return;
+          }
+        }
+        notify = check;
+      };
+      check();
+    });
+
+  const send = (message: RaceClientMessage | string): void =>
+    socket.send(
+      typeof message === "string" ? message : encodeMessage(message)
+    );
+
+  const join = (room: string, name: string, playerId?: string) => {
+    send({
+      type: "join",
+      version: RACE_PROTOCOL_VERSION,
+      room,
+      name,
+      setup: SETUP,
+      playerId,
+    });
+    return receive("welcome");
+  };
+
+  const close = async (): Promise<void> => {
+    socket.close();
+    await closed;
+  };
+
+  return { send, receive, join, close, closed };
+};
+
+const findPlayer = (message: ServerMessage<"room">, id: string) =>
+  message.room.players.find((player) => player.id === id);
+
+describe("race relay", () => {
+  it("creates a room on the first join and adds later players", async () => {
+    const ada = await connect();
+    const bea = await connect();
+
+    const first = await ada.join("join", "Ada");
+    expect(first.room.code).toBe("JOIN");
+    expect(first.room.hostId).toBe(first.playerId);
+    expect(first.room.state).toBe("lobby");
+
+    const second = await bea.join("JOIN", "Bea");
+    expect(second.room.players.map((player) => player.name)).toEqual([
+      "Ada",
+      "Bea",
+    ]);
+    expect(second.room.hostId).toBe(first.playerId);
+    await ada.receive("room", (message) => message.room.players.length === 2);
+
+    await Promise.all([ada.close(), bea.close()]);
+  });
+
+  it("rejects clients on another protocol version", async () => {
+    const old = await connect();
+    old.send({
+      type: "join",
+      version: RACE_PROTOCOL_VERSION + 1,
+      room: "VERS",
+      name: "Old",
+      setup: SETUP,
+    });
+
+    const error = await old.receive("error");
+    expect(error.code).toBe("version-mismatch");
+    await old.closed;
+  });
+
+  it("fans out start, progress and finish to the room", async () => {
+    const ada = await connect();
+    const bea = await connect();
+    const { playerId: adaId } = await ada.join("RACE", "Ada");
+    const { playerId: beaId } = await bea.join("RACE", "Bea");
+
+    bea.send({ type: "start" });
+    expect((await bea.receive("error")).code).toBe("not-host");
+
+    ada.send({ type: "start" });
+    await bea.receive("room", (message) => message.room.state === "racing");
+
+    ada.send({ type: "progress", currentLevel: 2, levelResults: [RESULT] });
+    const progress = await bea.receive(
+      "room",
+      (message) => findPlayer(message, adaId)?.currentLevel === 2
+    );
+    expect(findPlayer(progress, adaId)?.levelResults).toEqual([RESULT]);
+
+    ada.send({ type: "finish", totalTime: 5000, levelResults: [RESULT] });
+    const adaDone = await bea.receive(
+      "room",
+      (message) => findPlayer(message, adaId)?.finished === true
+    );
+    expect(adaDone.room.state).toBe("racing");
+
+    bea.send({ type: "finish", totalTime: 6000, levelResults: [RESULT] });
+    const done = await ada.receive(
+      "room",
+      (message) => message.room.state === "finished"
+    );
+    expect(findPlayer(done, adaId)?.totalTime).toBe(5000);
+    expect(findPlayer(done, beaId)?.totalTime).toBe(6000);
+
+    await Promise.all([ada.close(), bea.close()]);
+  });
+
+  it("keeps a player's progress when they rejoin with their id", async () => {
+    const ada = await connect();
+    const bea = await connect();
+    await ada.join("BACK", "Ada");
+    const { playerId: beaId } = await bea.join("BACK", "Bea");
+
+    ada.send({ type: "start" });
+    bea.send({ type: "progress", currentLevel: 3, levelResults: [RESULT] });
+    await ada.receive(
+      "room",
+      (message) => findPlayer(message, beaId)?.currentLevel === 3
+    );
+
+    await bea.close();
+    await ada.receive(
+      "room",
+      (message) => findPlayer(message, beaId)?.connected === false
+    );
+
+    const again = await connect();
+    const welcome = await again.join("BACK", "Bea", beaId);
+    expect(welcome.playerId).toBe(beaId);
+    expect(welcome.room.players).toHaveLength(2);
+    expect(welcome.room.players[1]).toMatchObject({
+      connected: true,
+      lateJoin: false,
+      currentLevel: 3,
+    });
+
+    await Promise.all([ada.close(), again.close()]);
+  });
+
+  it("hands the host over when the host leaves", async () => {
+    const ada = await connect();
+    const bea = await connect();
+    await ada.join("HOST", "Ada");
+    const { playerId: beaId } = await bea.join("HOST", "Bea");
+
+    await ada.close();
+    await bea.receive("room", (message) => message.room.hostId === beaId);
+
+    bea.send({ type: "start" });
+    await bea.receive("room", (message) => message.room.state === "racing");
+
+    await bea.close();
+  });
+
+  it("answers malformed messages without affecting other rooms", async () => {
+    const ada = await connect();
+    const cy = await connect();
+    await ada.join("BADX", "Ada");
+    const { playerId: cyId } = await cy.join("BADY", "Cy");
+
+    ada.send("{not json");
+    expect((await ada.receive("error")).code).toBe("bad-message");
+    ada.send(JSON.stringify({ type: "progress", currentLevel: "two" }));
+    expect((await ada.receive("error")).code).toBe("bad-message");
+
+    cy.send({ type: "progress", currentLevel: 2, levelResults: [] });
+    await cy.receive(
+      "room",
+      (message) => findPlayer(message, cyId)?.currentLevel === 2
+    );
+
+    // The sender's own room keeps working too
+    ada.send({ type: "start" });
+    await ada.receive("room", (message) => message.room.state === "racing");
+
+    await Promise.all([ada.close(), cy.close()]);
+  });
+});
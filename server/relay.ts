@@ -0,0 +1,262 @@
+// Reference relay for online races. It only keeps rooms in memory and relays
+// state between players; the games themselves run in each browser.
+//
+//   npm run relay            # ws://localhost:8787
+//   RACE_PORT=9000 npm run relay
+import { randomUUID } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import { pathToFileURL } from "node:url";
+import { WebSocketServer, type WebSocket } from "ws";
+import type {
+  RaceClientMessage,
+  RaceErrorCode,
+  RaceRoom,
+  RaceServerMessage,
+} from "../src/types/game.types";
+import {
+  DEFAULT_RACE_SERVER_PORT,
+  RACE_MAX_PLAYERS,
+  RACE_PROTOCOL_VERSION,
+  encodeMessage,
+  normalizeRoomCode,
+  parseClientMessage,
+} from "../src/utils/raceProtocol";
+
+const HEARTBEAT_MS = 30000;
+const EMPTY_ROOM_TTL_MS = 5 * 60 * 1000; // long enough to ride out a reload
+
+interface Session {
+  code: string;
+  playerId: string;
+}
+
+export interface RelayOptions {
+  port?: number;
+}
+
+export const startRelay = ({
+  port = DEFAULT_RACE_SERVER_PORT,
+}: RelayOptions = {}): WebSocketServer => {
+  const server = new WebSocketServer({ port });
+  const rooms = new Map<string, RaceRoom>();
+  const sockets = new Map<string, Map<string, WebSocket>>(); // code → player → socket
+  const expiry = new Map<string, ReturnType<typeof setTimeout>>();
+  const alive = new WeakSet<WebSocket>();
+
+  const send = (socket: WebSocket, message: RaceServerMessage): void => {
+    if (socket.readyState === socket.OPEN) socket.send(encodeMessage(message));
+  };
+
+  const sendError = (
+    socket: WebSocket,
+    code: RaceErrorCode,
+    message: string
+  ): void => send(socket, { type: "error", code, message });
+
+  const broadcast = (room: RaceRoom): void => {
+    sockets
+      .get(room.code)
+      ?.forEach((socket) => send(socket, { type: "room", room }));
+  };
+
+  // The race is over once everyone still connected has finished
+  const settle = (room: RaceRoom): void => {
+    if (room.state === "lobby") return;
+    const connected = room.players.filter((player) => player.connected);
+    room.state =
+      connected.length > 0 && connected.every((player) => player.finished)
+        ? "finished"
+        : "racing";
+  };
+
+  const handleJoin = (
+    socket: WebSocket,
+    message: Extract<RaceClientMessage, { type: "join" }>
+  ): Session | null => {
+    if (message.version !== RACE_PROTOCOL_VERSION) {
+      sendError(
+        socket,
+        "version-mismatch",
+        `Server speaks protocol v${RACE_PROTOCOL_VERSION}, client sent v${message.version}`
+      );
+      socket.close();
+      return null;
+    }
+
+    const code = normalizeRoomCode(message.room);
+    let room = rooms.get(code);
+    if (!room) {
+      room = {
+        code,
+        hostId: "",
+        state: "lobby",
+        setup: message.setup,
+        players: [],
+      };
+      rooms.set(code, room);
+      sockets.set(code, new Map());
+    }
+
+    clearTimeout(expiry.get(code));
+    expiry.delete(code);
+
+    // Rejoining keeps the player's progress; everyone else is a new player
+    let player = room.players.find((p) => p.id === message.playerId);
+    if (player) {
+      player.connected = true;
+      player.name = message.name;
+    } else {
+      if (room.players.length >= RACE_MAX_PLAYERS) {
+        sendError(socket, "room-full", `Room ${code} is full`);
+        return null;
+      }
+      player = {
+        id: randomUUID(),
+        name: message.name,
+        connected: true,
+        lateJoin: room.state !== "lobby",
+        currentLevel: 1,
+        levelResults: [],
+        finished: false,
+        totalTime: null,
+      };
+      room.players.push(player);
+    }
+    if (!room.players.some((p) => p.id === room.hostId && p.connected)) {
+      room.hostId = player.id;
+    }
+
+    sockets.get(code)?.get(player.id)?.close();
+    sockets.get(code)?.set(player.id, socket);
+    settle(room);
+
+    send(socket, {
+      type: "welcome",
+      version: RACE_PROTOCOL_VERSION,
+      playerId: player.id,
+      room,
+    });
+    broadcast(room);
+    return { code, playerId: player.id };
+  };
+
+  const handleLeave = (session: Session, socket: WebSocket): void => {
+    const room = rooms.get(session.code);
+    const roomSockets = sockets.get(session.code);
+    // A rejoin may already have replaced this socket
+    if (!room || roomSockets?.get(session.playerId) !== socket) return;
+
+    roomSockets.delete(session.playerId);
+    const player = room.players.find((p) => p.id === session.playerId);
+    if (player) player.connected = false;
+
+    const next = room.players.find((p) => p.connected);
+    if (room.hostId === session.playerId && next) room.hostId = next.id;
+    settle(room);
+    broadcast(room);
+
+    if (!next) {
+      expiry.set(
+        room.code,
+        setTimeout(() => {
+          rooms.delete(room.code);
+          sockets.delete(room.code);
+          expiry.delete(room.code);
+        }, EMPTY_ROOM_TTL_MS)
+      );
+    }
+  };
+
+  server.on("connection", (socket) => {
+    let session: Session | null = null;
+    alive.add(socket);
+    socket.on("pong", () => alive.add(socket));
+
+    const handleMessage = (data: string): void => {
+      const message = parseClientMessage(data);
+      if (!message) {
+        sendError(socket, "bad-message", "Unrecognized message");
+        return;
+      }
+      if (message.type === "join") {
+        if (session) handleLeave(session, socket);
+        session = handleJoin(socket, message);
+        return;
+      }
+
+      const room = session && rooms.get(session.code);
+      const player = room?.players.find((p) => p.id === session?.playerId);
+      if (!room || !player) {
+        sendError(socket, "not-joined", "Join a room first");
+        return;
+      }
+
+      switch (message.type) {
+        case "start":
+          if (room.hostId !== player.id) {
+            sendError(socket, "not-host", "Only the host can start the race");
+            return;
+          }
+          if (room.state === "lobby") room.state = "racing";
+          break;
+        case "progress":
+          player.currentLevel = message.currentLevel;
+          player.levelResults = message.levelResults;
+          break;
+        case "finish":
+          player.finished = true;
+          player.currentLevel = message.levelResults.length + 1;
+          player.totalTime = message.totalTime;
+          player.levelResults = message.levelResults;
+          settle(room);
+          break;
+      }
+      broadcast(room);
+    };
+
+    // One bad client must not take down every room
+    socket.on("message", (data) => {
+      try {
+        handleMessage(data.toString());
+      } catch (error) {
+        console.error("Race relay: failed to handle message", error);
+        sendError(socket, "bad-message", "Message could not be handled");
+      }
+    });
+
+    socket.on("close", () => {
+      if (session) handleLeave(session, socket);
+    });
+  });
+
+  // Drop connections that stopped answering pings, e.g. a tablet that slept
+  const heartbeat = setInterval(() => {
+    server.clients.forEach((socket) => {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.delete(socket);
+      socket.ping();
+    });
+  }, HEARTBEAT_MS);
+
+  server.on("close", () => {
+    clearInterval(heartbeat);
+    expiry.forEach(clearTimeout);
+  });
+
+  return server;
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  // RACE_PORT=0 picks a free port
+  const port = process.env.RACE_PORT
+    ? Number(process.env.RACE_PORT)
+    : DEFAULT_RACE_SERVER_PORT;
+  const server = startRelay({ port });
+  server.on("listening", () => {
+    const { port: bound } = server.address() as AddressInfo;
+    console.log(`Race relay listening on ws://localhost:${bound}`);
+  });
+}
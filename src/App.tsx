@@ -1,11 +1,13 @@
-import React from "react";
 import GameContainer from "./components/GameContainer";
+import TelemetryPanel from "./components/TelemetryPanel";
+import { isTelemetryDebugEnabled } from "./utils/telemetry";
 import "./App.css";
 
 function App() {
   return (
     <div className='App'>
       <GameContainer />
+      {isTelemetryDebugEnabled() && <TelemetryPanel />}
     </div>
   );
 }
@@ -0,0 +1,47 @@
+import React, { useState, useEffect } from 'react';
+import { CountdownBarProps } from '../types/game.types';
+import { tokens } from '../theme/theme';
+
+// Below this share of the time left the bar turns red
+const WARNING_FRACTION = 0.25;
+
+const CountdownBar: React.FC<CountdownBarProps> = ({ startedAt, durationMs, now }) => {
+  const [remaining, setRemaining] = useState<number>(durationMs);
+
+  useEffect(() => {
+    const update = (): void => {
+      setRemaining(Math.max(0, durationMs - (now() - startedAt)));
+    };
+    update();
+
+    const interval = setInterval(update, 50);
+    return () => clearInterval(interval);
+  }, [startedAt, durationMs, now]);
+
+  const fraction = durationMs > 0 ? remaining / durationMs : 0;
+
+  return (
+    <div
+      role="timer"
+      aria-label={`${Math.ceil(remaining / 1000)} seconds left`}
+      style={{
+        height: '12px',
+        borderRadius: '6px',
+        backgroundColor: tokens.color.border,
+        overflow: 'hidden',
+      }}
+    >
+      <div
+        style={{
+          width: `${fraction * 100}%`,
+          height: '100%',
+          backgroundColor:
+            fraction < WARNING_FRACTION ? tokens.color.danger : tokens.color.primary,
+          transition: 'width 0.05s linear',
+        }}
+      />
+    </div>
+  );
+};
+
+export default CountdownBar;
@@ -1,178 +1,610 @@
-import React, { useState, useEffect } from "react";
-import { GameContainerState } from "../types/game.types";
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+} from "react";
+import {
+  ControlAction,
+  DifficultyMode,
+  GameContainerProps,
+  GameContainerState,
+  GameMode,
+  GameRules,
+  Replay,
+  ReplayInput,
+  RunCheckpoint,
+  RunRecord,
+} from "../types/game.types";
 import Timer from "./Timer";
+import SplitDelta from "./SplitDelta";
 import ProgressTracker from "./ProgressTracker";
+import LivesDisplay from "./LivesDisplay";
+import CountdownBar from "./CountdownBar";
+import LevelIntro from "./LevelIntro";
 import SkipButton from "./SkipButton";
+import PauseOverlay from "./PauseOverlay";
 import ResultsScreen from "./ResultsScreen";
-import ColorMatch from "./microgames/ColorMatch";
-import SequenceMemory from "./microgames/SequenceMemory";
-import SpeedTap from "./microgames/SpeedTap";
-import DirectionMatch from "./microgames/DirectionMatch";
-import OddOneOut from "./microgames/OddOneOut";
-
-const GameContainer: React.FC = () => {
-  const [state, setState] = useState<GameContainerState>({
-    gameState: "idle",
-    currentLevel: 1,
-    startTime: null,
-    totalTime: 0,
-    levelResults: Array(5).fill({
-      completed: false,
-      skipped: false,
-      timeSpent: 0,
-    }),
-    showSkipButton: false,
-  });
-
-  const [skipButtonTimer, setSkipButtonTimer] = useState<NodeJS.Timeout | null>(
-    null
+import Leaderboard from "./Leaderboard";
+import SettingsScreen from "./SettingsScreen";
+import RunHistory from "./RunHistory";
+import ReplayViewer from "./ReplayViewer";
+import PracticeMode from "./PracticeMode";
+import LocalMatch from "./LocalMatch";
+import OnlineRace from "./OnlineRace";
+import { getMicrogame, getRegisteredMicrogames } from "./microgames";
+import { createRng, randomSeed } from "../utils/rng";
+import {
+  getDailyAttempt,
+  getDailyGameOrder,
+  getDailyKey,
+  getDailySeed,
+  getDayNumber,
+  saveDailyAttempt,
+} from "../utils/dailyChallenge";
+import { DIFFICULTY_MODES } from "../utils/difficulty";
+import { createRunId, getPersonalBestRun, runStore } from "../utils/runHistory";
+import {
+  clearCheckpoint,
+  createCheckpoint,
+  loadCheckpoint,
+  saveCheckpoint,
+} from "../utils/runCheckpoint";
+import { computeSplits, getSplitDeltas } from "../utils/timing";
+import { createScheduler } from "../utils/scheduler";
+import { createChannel, createInputChannel } from "../utils/input";
+import { useDeviceControls } from "../hooks/useDeviceControls";
+import { useGameMachine } from "../hooks/useGameMachine";
+import { usePerKey } from "../hooks/usePerKey";
+import {
+  buildReplay,
+  encodeReplay,
+  getReplayOffset,
+} from "../utils/replay";
+import { sound } from "../utils/audio";
+import { buildGameOrder, DEFAULT_RULES, loadRules } from "../utils/rules";
+import { ENDLESS_LIVES, ENDLESS_RULES } from "../utils/endless";
+import { getLevelTimeLimit, LEVEL_INTRO_MS } from "../utils/gameMachine";
+import { formatTime } from "../utils/formatTime";
+import { getRunEvents, telemetry } from "../utils/telemetry";
+import { tokens } from "../theme/theme";
+
+const getRegisteredIds = (): string[] =>
+  getRegisteredMicrogames().map((game) => game.id);
+
+// A ?seed=123 query parameter replays a specific run, e.g. from a bug report
+const getRunSeed = (): number => {
+  const param = new URLSearchParams(window.location.search).get("seed");
+  const parsed = param === null ? NaN : Number(param);
+  return Number.isInteger(parsed) ? parsed >>> 0 : randomSeed();
+};
+
+const GameContainer: React.FC<GameContainerProps> = ({
+  match,
+  onMatchUpdate,
+  scheduler: injectedScheduler,
+}) => {
+  const [menuScreen, setMenuScreen] = useState<
+    | "menu"
+    | "leaderboard"
+    | "history"
+    | "settings"
+    | "practice"
+    | "match"
+    | "online"
+  >("menu");
+  const [watchedReplay, setWatchedReplay] = useState<Replay | null>(null);
+  // Match runs skip personal bests
+  const [personalBest, setPersonalBest] = useState<
+    RunRecord | null | undefined
+  >(match ? null : undefined);
+  // Match runs are never checkpointed, so they have nothing to resume
+  const [savedRun, setSavedRun] = useState<RunCheckpoint | null>(() =>
+    match ? null : loadCheckpoint(getRegisteredIds())
   );
 
-  const startGame = (): void => {
-    const now = Date.now();
-    setState({
-      gameState: "playing",
-      currentLevel: 1,
-      startTime: now,
-      totalTime: 0,
-      levelResults: Array(5).fill({
-        completed: false,
-        skipped: false,
-        timeSpent: 0,
-      }),
-      showSkipButton: false,
-    });
+  // Owns every run and microgame timer so pausing freezes them all at once
+  const [scheduler] = useState(() => injectedScheduler ?? createScheduler());
+  const [state, dispatch] = useGameMachine(scheduler, getRegisteredIds());
+
+  // Keyboard and gamepad actions, live only while a level is being played.
+  // Split-screen players share one keyboard, so they play by touch only.
+  const [controls] = useState(() => createChannel<ControlAction>());
+  useDeviceControls(
+    controls,
+    state.gameState === "playing" && !state.isPaused && !match?.shared
+  );
+
+  // Every input of the run, per level, for the replay saved with it
+  const replayInputs = useRef<ReplayInput[][]>([]);
+  const lastTarget = useRef<number | null>(null);
 
-    // Start skip button timer
-    const timer = setTimeout(() => {
-      setState((prev) => ({ ...prev, showSkipButton: true }));
-    }, 5000);
-    setSkipButtonTimer(timer);
+  // Loaded up front so splits can be compared live during the run. Match
+  // runs race each other instead.
+  const loadPersonalBest = (
+    mode: GameMode,
+    difficultyMode: DifficultyMode,
+    rules: GameRules
+  ): void => {
+    setPersonalBest(match ? null : undefined);
+    if (match) return;
+    runStore
+      .list()
+      .then((runs) =>
+        setPersonalBest(
+          getPersonalBestRun(runs, { id: "", mode, difficultyMode, rules })
+        )
+      )
+      .catch(() => setPersonalBest(null));
   };
 
-  const handleLevelComplete = (skipCurrentLevelResult: boolean = false): void => {
-    const now = Date.now();
-    const timeSpent = state.startTime ? now - state.startTime : 0;
-
-    const newLevelResults = [...state.levelResults];
-    
-    // Only update level result if not skipping (to preserve skip status)
-    if (!skipCurrentLevelResult) {
-      newLevelResults[state.currentLevel - 1] = {
-        completed: true,
-        skipped: false,
-        timeSpent,
-      };
-    }
+  const startRun = (
+    seed: number,
+    gameIds: string[],
+    mode: GameMode,
+    difficultyMode: DifficultyMode,
+    rules: GameRules,
+    dailyKey: string | null = null
+  ): void => {
+    replayInputs.current = [];
+    // Starting over abandons any saved run
+    if (!match) clearCheckpoint();
+    setSavedRun(null);
+    loadPersonalBest(mode, difficultyMode, rules);
 
-    if (state.currentLevel >= 5) {
-      // Update final level result and end game in one state update
-      const now = Date.now();
-      const finalTime = state.startTime ? (now - state.startTime) + state.totalTime : state.totalTime;
-      
-      if (skipButtonTimer) clearTimeout(skipButtonTimer);
-      
-      setState((prev) => ({
-        ...prev,
-        levelResults: skipCurrentLevelResult ? prev.levelResults : newLevelResults,
-        gameState: "completed",
-        totalTime: finalTime,
-        showSkipButton: false,
-      }));
-    } else {
-      setState((prev) => ({
-        ...prev,
-        currentLevel: prev.currentLevel + 1,
-        levelResults: skipCurrentLevelResult ? prev.levelResults : newLevelResults,
-        showSkipButton: false,
-      }));
-
-      // Reset skip button timer for next level
-      if (skipButtonTimer) clearTimeout(skipButtonTimer);
-      const timer = setTimeout(() => {
-        setState((prev) => ({ ...prev, showSkipButton: true }));
-      }, 5000);
-      setSkipButtonTimer(timer);
-    }
+    dispatch({
+      type: "start",
+      setup: {
+        seed,
+        gameIds,
+        mode,
+        difficultyMode,
+        rules,
+        dailyKey,
+        dayNumber: dailyKey ? getDayNumber() : null,
+      },
+    });
   };
 
-  const handleSkip = (): void => {
-    const now = Date.now();
-    const timeSpent = state.startTime ? now - state.startTime : 0;
-
-    const newLevelResults = [...state.levelResults];
-    newLevelResults[state.currentLevel - 1] = {
-      completed: false,
-      skipped: true,
-      timeSpent,
-    };
+  const resumeRun = (checkpoint: RunCheckpoint): void => {
+    replayInputs.current = checkpoint.replayInputs.map((inputs) => [...inputs]);
+    setSavedRun(null);
+    loadPersonalBest(
+      checkpoint.mode,
+      checkpoint.difficultyMode,
+      checkpoint.rules
+    );
+    dispatch({ type: "resume", checkpoint });
+  };
 
-    setState((prev) => ({
-      ...prev,
-      totalTime: prev.totalTime + 30000, // Add 30 second penalty
-      levelResults: newLevelResults,
-    }));
+  const startGame = (): void => {
+    const rules = loadRules();
+    startRun(
+      getRunSeed(),
+      buildGameOrder(getRegisteredIds(), rules.rounds),
+      "standard",
+      state.difficultyMode,
+      rules
+    );
+  };
 
-    handleLevelComplete(true);
+  // Rounds are generated as the run goes; difficulty follows the round
+  // schedule, so runs are recorded as "normal"
+  const startEndless = (): void => {
+    startRun(getRunSeed(), [], "endless", "normal", ENDLESS_RULES);
   };
 
-  const endGame = (): void => {
-    if (skipButtonTimer) clearTimeout(skipButtonTimer);
+  const startDailyChallenge = (): void => {
+    const dailyKey = getDailyKey();
+    const seed = getDailySeed(dailyKey);
 
-    const now = Date.now();
-    const finalTime = state.startTime
-      ? now - state.startTime + state.totalTime
-      : state.totalTime;
+    // Burn the day's attempt up front so abandoning a bad run can't be retried
+    saveDailyAttempt({
+      dailyKey,
+      dayNumber: getDayNumber(),
+      finished: false,
+      totalTime: null,
+      levelResults: [],
+    });
 
-    setState((prev) => ({
-      ...prev,
-      gameState: "completed",
-      totalTime: finalTime,
-      showSkipButton: false,
-    }));
+    // Everyone plays the daily at the same fixed difficulty and rules
+    startRun(
+      seed,
+      getDailyGameOrder(seed, getRegisteredIds()),
+      "daily",
+      "normal",
+      DEFAULT_RULES,
+      dailyKey
+    );
   };
 
-  const resetGame = (): void => {
-    if (skipButtonTimer) clearTimeout(skipButtonTimer);
-
-    setState({
-      gameState: "idle",
-      currentLevel: 1,
-      startTime: null,
-      totalTime: 0,
-      levelResults: Array(5).fill({
-        completed: false,
-        skipped: false,
-        timeSpent: 0,
-      }),
-      showSkipButton: false,
+  // Inputs and outcomes name their level, so one that lands after the level
+  // is over (a late onComplete, a skip racing a win) is dropped
+  const recordInput = useCallback(
+    (level: number, correct: boolean): void => {
+      sound.play(correct ? "correct" : "wrong");
+      dispatch({ type: "input", level, correct });
+    },
+    [dispatch]
+  );
+
+  const handleLevelComplete = (): void => {
+    dispatch({
+      type: "finish-level",
+      level: state.currentLevel,
+      outcome: "completed",
     });
   };
 
+  const handleSkip = (): void => {
+    dispatch({
+      type: "finish-level",
+      level: state.currentLevel,
+      outcome: "skipped",
+    });
+  };
+
+  const setPaused = useCallback(
+    (paused: boolean): void => dispatch({ type: "pause", paused }),
+    [dispatch]
+  );
+
+  const resetGame = (): void => dispatch({ type: "reset" });
+
+  // Embedded in a match: start straight away on the match's setup. Match
+  // runs have no checkpoint, history or personal best, so only the run
+  // itself needs starting, and only once per mount.
+  const matchSetup = match?.setup;
+  const matchStarted = useRef<boolean>(false);
   useEffect(() => {
+    if (!matchSetup || matchStarted.current) return;
+    matchStarted.current = true;
+    dispatch({
+      type: "start",
+      setup: {
+        seed: matchSetup.seed,
+        gameIds: matchSetup.gameIds,
+        mode: "standard",
+        difficultyMode: matchSetup.difficulty,
+        rules: matchSetup.rules,
+        dailyKey: null,
+        dayNumber: null,
+      },
+    });
+  }, [matchSetup, dispatch]);
+
+  // A sting between levels and a fanfare when the run is over
+  useEffect(() => {
+    if (state.gameState === "playing" && state.currentLevel > 1) {
+      sound.play("level");
+    } else if (state.gameState === "completed") {
+      sound.play("fanfare");
+    }
+  }, [state.gameState, state.currentLevel]);
+
+  // Escape toggles pause; leaving the tab always pauses
+  const runActive =
+    state.gameState !== "idle" && state.gameState !== "completed";
+  useEffect(() => {
+    if (!runActive) return;
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === "Escape") setPaused(!scheduler.isPaused());
+    };
+    const handleVisibilityChange = (): void => {
+      if (document.hidden) setPaused(true);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
     return () => {
-      if (skipButtonTimer) clearTimeout(skipButtonTimer);
+      window.removeEventListener("keydown", handleKeyDown);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
     };
-  }, [skipButtonTimer]);
+  }, [runActive, scheduler, setPaused]);
+
+  // Record the daily result once the final state (including penalties) lands
+  useEffect(() => {
+    if (state.gameState !== "completed" || !state.dailyKey) return;
+    saveDailyAttempt({
+      dailyKey: state.dailyKey,
+      dayNumber: state.dayNumber ?? getDayNumber(),
+      finished: true,
+      totalTime: state.totalTime,
+      levelResults: state.levelResults,
+    });
+  }, [
+    state.gameState,
+    state.dailyKey,
+    state.dayNumber,
+    state.totalTime,
+    state.levelResults,
+  ]);
+
+  // Keep the match up to date after every level so a split-screen loser
+  // still has splits to compare
+  useEffect(() => {
+    if (!match || state.gameState === "idle") return;
+    onMatchUpdate?.({
+      name: match.playerName,
+      finished: state.gameState === "completed",
+      totalTime: state.totalTime,
+      levelResults: state.levelResults,
+    });
+  }, [
+    state.gameState,
+    state.totalTime,
+    state.levelResults,
+    match,
+    onMatchUpdate,
+  ]);
+
+  // Checkpoint at every level boundary and whenever the clock stops (leaving
+  // the tab pauses), plus once more if the page goes away mid-level. A fresh
+  // run's countdown has nothing worth saving yet.
+  const checkpointable =
+    runActive &&
+    !match &&
+    (state.gameState !== "countdown" || state.resumedFrom !== null);
+  const checkpointKey = useRef<string | null>(null);
+  useEffect(() => {
+    if (!checkpointable) return;
+
+    const save = (): void =>
+      saveCheckpoint(
+        createCheckpoint(state, scheduler.now(), replayInputs.current)
+      );
+    const key = `${state.gameState}:${state.currentLevel}:${state.isPaused}`;
+    if (key !== checkpointKey.current) {
+      checkpointKey.current = key;
+      save();
+    }
+
+    window.addEventListener("pagehide", save);
+    return () => window.removeEventListener("pagehide", save);
+  }, [checkpointable, state, scheduler]);
+
+  // Persist every finished run; match runs stay out of history
+  useEffect(() => {
+    if (state.gameState !== "completed" || match) return;
+
+    clearCheckpoint();
+    checkpointKey.current = null;
+    runStore
+      .add({
+        id: createRunId(),
+        date: new Date().toISOString(),
+        mode: state.mode,
+        difficultyMode: state.difficultyMode,
+        seed: state.seed,
+        rules: state.rules,
+        totalTime: state.totalTime,
+        levelResults: state.levelResults,
+        resumed: state.resumedFrom !== null,
+        replay: encodeReplay(
+          buildReplay(
+            state.seed,
+            state.rules,
+            state.levelResults,
+            replayInputs.current,
+            state.resumedFrom
+          )
+        ),
+      })
+      .catch(() => {
+        // History is best-effort; the results screen still shows the run
+      });
+  }, [
+    state.gameState,
+    state.mode,
+    state.difficultyMode,
+    state.seed,
+    state.rules,
+    state.totalTime,
+    state.levelResults,
+    state.resumedFrom,
+    match,
+  ]);
+
+  // Report what each state change meant for the run
+  const telemetryState = useRef<GameContainerState | null>(null);
+  useEffect(() => {
+    const prev = telemetryState.current;
+    telemetryState.current = state;
+    getRunEvents(prev, state, lastTarget.current).forEach(telemetry.emit);
+  }, [state]);
+
+  // One stable stream so games can keep drawing from it mid-play
+  const levelKey = `${state.seed}:${state.currentLevel}`;
+  const levelRng = usePerKey(levelKey, () =>
+    createRng(state.seed).fork(state.currentLevel - 1)
+  );
+  const levelInput = usePerKey(levelKey, createInputChannel);
+
+  // Record each input with its time relative to the level start, or to
+  // the restart when the level was resumed
+  const levelResult = state.levelResults[state.currentLevel - 1];
+  const levelStartedAt = levelResult?.startedAt ?? 0;
+  const replayOffset = getReplayOffset(levelResult, state.resumedFrom);
+  useEffect(() => {
+    if (state.gameState !== "playing" || state.startTime === null) return;
+
+    const index = state.currentLevel - 1;
+    const levelStart = state.startTime + levelStartedAt + replayOffset;
+    lastTarget.current = null;
+    return levelInput.subscribe((target) => {
+      lastTarget.current = target;
+      (replayInputs.current[index] ??= []).push([
+        scheduler.now() - levelStart,
+        target,
+      ]);
+    });
+  }, [
+    state.gameState,
+    state.currentLevel,
+    state.startTime,
+    levelStartedAt,
+    replayOffset,
+    levelInput,
+    scheduler,
+  ]);
+
+  // Endless rounds differ run to run, so there are no splits to compare
+  const splitDeltas = getSplitDeltas(
+    computeSplits(state.levelResults),
+    personalBest && state.mode !== "endless"
+      ? computeSplits(personalBest.levelResults)
+      : []
+  );
+  const levelTimeLimit = getLevelTimeLimit(
+    state.mode,
+    state.rules,
+    state.currentLevel
+  );
+  const lastSplitDelta =
+    splitDeltas.length > 0 ? splitDeltas[splitDeltas.length - 1] : null;
+
+  // The run clock holds still through intros unless the rules keep it going
+  const clockStoppedAt =
+    state.gameState === "transition" && state.rules.introClock === "paused"
+      ? state.phaseStartedAt
+      : null;
+  const runNow = useCallback(
+    () => clockStoppedAt ?? scheduler.now(),
+    [clockStoppedAt, scheduler]
+  );
 
   const renderCurrentMicrogame = () => {
-    const games = [ColorMatch, SequenceMemory, SpeedTap, DirectionMatch, OddOneOut];
-    const CurrentGame = games[state.currentLevel - 1];
-    
+    const currentResult = state.levelResults[state.currentLevel - 1];
+    const { component: CurrentGame } = getMicrogame(currentResult.gameId);
+
     return (
-      <CurrentGame
+      <div
         key={state.currentLevel}
-        onComplete={handleLevelComplete}
-        level={state.currentLevel}
-      />
+        className="level-enter"
+        style={{ flexGrow: 1, display: "flex", flexDirection: "column" }}
+      >
+        <CurrentGame
+          onComplete={handleLevelComplete}
+          onHit={() => recordInput(state.currentLevel, true)}
+          onMistake={() => recordInput(state.currentLevel, false)}
+          level={state.currentLevel}
+          rng={levelRng}
+          difficulty={currentResult.difficulty}
+          scheduler={scheduler}
+          input={levelInput}
+          controls={controls}
+        />
+      </div>
     );
   };
 
+  if (match && state.gameState === "idle") return null;
+
+  if (match && state.gameState === "completed") {
+    return (
+      <div style={{ textAlign: "center", padding: "2rem" }}>
+        <h2>🏁 {match.playerName} finished!</h2>
+        <p style={{ fontFamily: "monospace", fontSize: "1.5rem" }}>
+          {formatTime(state.totalTime)}
+        </p>
+      </div>
+    );
+  }
+
+  if (state.gameState === "idle" && watchedReplay) {
+    return (
+      <ReplayViewer
+        replay={watchedReplay}
+        onExit={() => setWatchedReplay(null)}
+      />
+    );
+  }
+
+  if (state.gameState === "idle" && menuScreen === "leaderboard") {
+    return (
+      <Leaderboard
+        onBack={() => setMenuScreen("menu")}
+        onWatchReplay={setWatchedReplay}
+      />
+    );
+  }
+
+  if (state.gameState === "idle" && menuScreen === "history") {
+    return (
+      <RunHistory
+        onBack={() => setMenuScreen("menu")}
+        onWatchReplay={setWatchedReplay}
+      />
+    );
+  }
+
+  if (state.gameState === "idle" && menuScreen === "practice") {
+    return <PracticeMode onBack={() => setMenuScreen("menu")} />;
+  }
+
+  if (state.gameState === "idle" && menuScreen === "match") {
+    return <LocalMatch onBack={() => setMenuScreen("menu")} />;
+  }
+
+  if (state.gameState === "idle" && menuScreen === "online") {
+    return <OnlineRace onBack={() => setMenuScreen("menu")} />;
+  }
+
+  if (state.gameState === "idle" && menuScreen === "settings") {
+    return <SettingsScreen onBack={() => setMenuScreen("menu")} />;
+  }
+
   if (state.gameState === "idle") {
+    const dailyAttempt = getDailyAttempt(getDailyKey());
+
     return (
       <div style={{ textAlign: "center", padding: "2rem" }}>
         <h1>Microgames Challenge</h1>
-        <p>Complete 5 quick puzzles as fast as possible!</p>
+        <p>
+          Complete {loadRules().rounds} quick puzzles as fast as possible!
+        </p>
+        {savedRun && (
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "center",
+              alignItems: "center",
+              gap: "1rem",
+              marginBottom: "1rem",
+            }}
+          >
+            <button
+              onClick={() => resumeRun(savedRun)}
+              style={{
+                fontSize: "1.2rem",
+                padding: "1rem 2rem",
+                minWidth: "44px",
+                minHeight: "44px",
+                backgroundColor: tokens.color.primary,
+                color: tokens.color.onPrimary,
+              }}
+            >
+              Resume run
+            </button>
+            <span style={{ color: tokens.color.textMuted }}>
+              {savedRun.mode === "endless"
+                ? `Endless, round ${savedRun.currentLevel}`
+                : `Level ${savedRun.currentLevel} of ${savedRun.levelResults.length}`}
+              {" · "}
+              {new Date(savedRun.savedAt).toLocaleString()}
+            </span>
+            <button
+              onClick={() => {
+                clearCheckpoint();
+                setSavedRun(null);
+              }}
+              style={{ minWidth: "44px", minHeight: "44px" }}
+            >
+              Discard
+            </button>
+          </div>
+        )}
         <button
           onClick={startGame}
           style={{
@@ -184,6 +616,106 @@ const GameContainer: React.FC = () => {
         >
           Start Game
         </button>
+        <button
+          onClick={startEndless}
+          style={{
+            fontSize: "1.2rem",
+            padding: "1rem 2rem",
+            minWidth: "44px",
+            minHeight: "44px",
+            marginLeft: "1rem",
+          }}
+        >
+          Endless
+        </button>
+        <button
+          onClick={startDailyChallenge}
+          disabled={dailyAttempt !== null}
+          style={{
+            fontSize: "1.2rem",
+            padding: "1rem 2rem",
+            minWidth: "44px",
+            minHeight: "44px",
+            marginLeft: "1rem",
+          }}
+        >
+          Daily Challenge #{getDayNumber()}
+        </button>
+        <div style={{ marginTop: "1rem" }}>
+          <label>
+            Difficulty:{" "}
+            <select
+              value={state.difficultyMode}
+              onChange={(e) =>
+                dispatch({
+                  type: "set-difficulty-mode",
+                  difficultyMode: e.target.value as DifficultyMode,
+                })
+              }
+              style={{ fontSize: "1rem", minHeight: "44px" }}
+            >
+              {DIFFICULTY_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {mode.charAt(0).toUpperCase() + mode.slice(1)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div
+          style={{
+            marginTop: "1rem",
+            display: "flex",
+            justifyContent: "center",
+            gap: "1rem",
+          }}
+        >
+          <button
+            onClick={() => setMenuScreen("practice")}
+            style={{ minWidth: "44px", minHeight: "44px" }}
+          >
+            Practice
+          </button>
+          <button
+            onClick={() => setMenuScreen("match")}
+            style={{ minWidth: "44px", minHeight: "44px" }}
+          >
+            2 Players
+          </button>
+          <button
+            onClick={() => setMenuScreen("online")}
+            style={{ minWidth: "44px", minHeight: "44px" }}
+          >
+            Online
+          </button>
+          <button
+            onClick={() => setMenuScreen("leaderboard")}
+            style={{ minWidth: "44px", minHeight: "44px" }}
+          >
+            Leaderboard
+          </button>
+          <button
+            onClick={() => setMenuScreen("history")}
+            style={{ minWidth: "44px", minHeight: "44px" }}
+          >
+            History
+          </button>
+          <button
+            onClick={() => setMenuScreen("settings")}
+            style={{ minWidth: "44px", minHeight: "44px" }}
+          >
+            Settings
+          </button>
+        </div>
+        {dailyAttempt && (
+          <p style={{ color: tokens.color.textMuted }}>
+            {dailyAttempt.finished
+              ? "You've played today's challenge. Come back tomorrow!"
+              : savedRun?.dailyKey === dailyAttempt.dailyKey
+              ? "Today's attempt is saved. Resume it above."
+              : "Today's attempt was abandoned. Come back tomorrow!"}
+          </p>
+        )}
       </div>
     );
   }
@@ -192,7 +724,13 @@ const GameContainer: React.FC = () => {
     return (
       <ResultsScreen
         totalTime={state.totalTime}
+        seed={state.seed}
+        mode={state.mode}
+        rules={state.rules}
+        dayNumber={state.dayNumber}
+        personalBest={personalBest}
         levelResults={state.levelResults}
+        resumed={state.resumedFrom !== null}
         onRestart={resetGame}
       />
     );
@@ -200,6 +738,7 @@ const GameContainer: React.FC = () => {
 
   return (
     <div style={{ 
+      position: "relative",
       padding: "1rem", 
       height: "100vh", 
       display: "flex", 
@@ -212,21 +751,89 @@ const GameContainer: React.FC = () => {
           marginBottom: "1rem",
         }}
       >
-        <Timer
-          startTime={state.startTime || 0}
-          additionalTime={state.totalTime}
-        />
-        <ProgressTracker
-          currentLevel={state.currentLevel}
-          levelResults={state.levelResults}
-        />
+        <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+          {match && <strong>{match.playerName}</strong>}
+          <Timer
+            startTime={state.startTime || 0}
+            additionalTime={state.totalTime}
+            now={runNow}
+          />
+          <SplitDelta delta={lastSplitDelta} />
+        </div>
+        <div style={{ display: "flex", alignItems: "center", gap: "1rem" }}>
+          {state.lives !== null ? (
+            <LivesDisplay
+              lives={state.lives}
+              maxLives={ENDLESS_LIVES}
+              round={state.currentLevel}
+            />
+          ) : (
+            <ProgressTracker
+              currentLevel={state.currentLevel}
+              levelResults={state.levelResults}
+            />
+          )}
+          {/* One side pausing alone would stop only its own clock */}
+          {!match?.shared && (
+            <button
+              onClick={() => setPaused(true)}
+              aria-label="Pause"
+              style={{ minWidth: "44px", minHeight: "44px" }}
+            >
+              ⏸
+            </button>
+          )}
+        </div>
       </div>
 
-      <div style={{ flexGrow: 1, display: "flex", flexDirection: "column" }}>
-        {renderCurrentMicrogame()}
+      {/* Hidden rather than unmounted so the puzzle resumes exactly as it was,
+          but can't be studied while the clock is stopped */}
+      <div
+        aria-hidden={state.isPaused}
+        style={{
+          flexGrow: 1,
+          display: "flex",
+          flexDirection: "column",
+          visibility: state.isPaused ? "hidden" : "visible",
+        }}
+      >
+        {(state.gameState === "countdown" ||
+          state.gameState === "transition") &&
+          state.phaseStartedAt !== null && (
+          <LevelIntro
+            key={state.currentLevel}
+            game={getMicrogame(state.levelResults[state.currentLevel - 1].gameId)}
+            level={state.currentLevel}
+            levelCount={state.mode === "endless" ? null : state.levelResults.length}
+            startedAt={state.phaseStartedAt}
+            durationMs={LEVEL_INTRO_MS}
+            now={scheduler.now}
+          />
+        )}
+        {/* The level's time limit shrinks away above the puzzle; running
+            out is a time-out, not a skip */}
+        {state.gameState === "playing" &&
+          levelTimeLimit !== null &&
+          state.startTime !== null && (
+          <div style={{ marginBottom: "1rem" }}>
+            <CountdownBar
+              key={state.currentLevel}
+              startedAt={state.startTime + levelStartedAt}
+              durationMs={levelTimeLimit}
+              now={scheduler.now}
+            />
+          </div>
+        )}
+        {state.gameState === "playing" && renderCurrentMicrogame()}
       </div>
 
-      <SkipButton onSkip={handleSkip} visible={state.showSkipButton} />
+      <SkipButton
+        onSkip={handleSkip}
+        visible={state.rules.allowSkip && state.showSkipButton && !state.isPaused}
+        penaltyMs={state.rules.skipPenaltyMs}
+      />
+
+      {state.isPaused && <PauseOverlay onResume={() => setPaused(false)} />}
     </div>
   );
 };
@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from "react";
+import { GameMode, LeaderboardProps, RunRecord } from "../types/game.types";
+import {
+  compareRuns,
+  formatRulesSummary,
+  getRunCategories,
+  isInCategory,
+  runStore,
+} from "../utils/runHistory";
+import { getRoundsCleared } from "../utils/endless";
+import { DEFAULT_RULES } from "../utils/rules";
+import { formatTime } from "../utils/formatTime";
+import { getRunReplay } from "../utils/replay";
+import { tokens } from "../theme/theme";
+
+const MAX_ENTRIES = 10;
+
+const MODE_LABELS: Record<GameMode, string> = {
+  standard: "Standard",
+  daily: "Daily",
+  endless: "Endless",
+};
+
+const Leaderboard: React.FC<LeaderboardProps> = ({
+  onBack,
+  onWatchReplay,
+}) => {
+  const [runs, setRuns] = useState<RunRecord[] | null>(null);
+  const [mode, setMode] = useState<GameMode>("standard");
+  const [categoryIndex, setCategoryIndex] = useState<number>(0);
+  const [hideResumed, setHideResumed] = useState<boolean>(false);
+
+  useEffect(() => {
+    runStore
+      .list()
+      .then(setRuns)
+      .catch(() => setRuns([]));
+  }, []);
+
+  // Ranked within one difficulty and rule set, so a 1-round or no-penalty
+  // run can't top full runs
+  const categories = getRunCategories(runs ?? [], mode);
+  const category = categories[categoryIndex] ?? categories[0];
+  const entries = (runs ?? [])
+    .filter(
+      (run) =>
+        category !== undefined &&
+        isInCategory(run, category) &&
+        !(hideResumed && run.resumed)
+    )
+    .sort(compareRuns)
+    .slice(0, MAX_ENTRIES);
+
+  const renderReplayButton = (run: RunRecord) => {
+    const replay = getRunReplay(run);
+    if (!replay) return <span />;
+
+    return (
+      <button
+        onClick={() => onWatchReplay(replay)}
+        aria-label={`Watch replay of run #${entries.indexOf(run) + 1}`}
+        style={{ padding: "0 0.5rem" }}
+      >
+        ▶
+      </button>
+    );
+  };
+
+  return (
+    <div
+      style={{
+        textAlign: "center",
+        padding: "2rem",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1>Leaderboard</h1>
+
+      <div
+        role="tablist"
+        style={{ display: "flex", justifyContent: "center", gap: "0.5rem" }}
+      >
+        {(Object.keys(MODE_LABELS) as GameMode[]).map((tab) => (
+          <button
+            key={tab}
+            role="tab"
+            aria-selected={tab === mode}
+            onClick={() => {
+              setMode(tab);
+              setCategoryIndex(0);
+            }}
+            style={{
+              minWidth: "44px",
+              minHeight: "44px",
+              backgroundColor: tab === mode ? tokens.color.primary : undefined,
+              color: tab === mode ? tokens.color.onPrimary : undefined,
+            }}
+          >
+            {MODE_LABELS[tab]}
+          </button>
+        ))}
+      </div>
+
+      {categories.length > 0 && (
+        <label style={{ display: "block", marginTop: "1rem" }}>
+          Ranking{" "}
+          <select
+            value={categories.indexOf(category)}
+            onChange={(e) => setCategoryIndex(Number(e.target.value))}
+            style={{ fontSize: "1rem", minHeight: "36px", maxWidth: "100%" }}
+          >
+            {categories.map((option, index) => (
+              <option key={index} value={index}>
+                {option.difficultyMode}
+                {mode !== "endless" &&
+                  ` · ${formatRulesSummary(option.rules ?? DEFAULT_RULES)}`}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <label style={{ display: "block", marginTop: "1rem" }}>
+        <input
+          type="checkbox"
+          checked={hideResumed}
+          onChange={(e) => setHideResumed(e.target.checked)}
+        />{" "}
+        Hide resumed runs
+      </label>
+
+      <div style={{ margin: "2rem auto", maxWidth: "400px" }}>
+        {runs === null ? (
+          <p>Loading…</p>
+        ) : entries.length === 0 ? (
+          <p style={{ color: tokens.color.textMuted }}>No finished runs yet.</p>
+        ) : (
+          <ol style={{ listStyle: "none", padding: 0, margin: 0 }}>
+            {entries.map((run, index) => (
+              <li
+                key={run.id}
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  padding: "0.5rem",
+                  marginBottom: "0.5rem",
+                  backgroundColor: tokens.color.surfaceMuted,
+                  borderRadius: "4px",
+                  borderLeft: `4px solid ${
+                    index === 0 ? tokens.color.highlight : tokens.color.border
+                  }`,
+                  color: tokens.color.surfaceText,
+                }}
+              >
+                <span>
+                  #{index + 1}
+                  {run.resumed && (
+                    <span title="Resumed after a reload"> ↻</span>
+                  )}
+                </span>
+                <span style={{ fontFamily: "monospace", fontWeight: "bold" }}>
+                  {run.mode === "endless"
+                    ? `${getRoundsCleared(run.levelResults)} rounds`
+                    : formatTime(run.totalTime)}
+                </span>
+                <span style={{ color: tokens.color.textMuted }}>
+                  {run.mode === "endless"
+                    ? formatTime(run.totalTime)
+                    : run.difficultyMode}
+                </span>
+                <span style={{ color: tokens.color.textMuted }}>
+                  {new Date(run.date).toLocaleDateString()}
+                </span>
+                {renderReplayButton(run)}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <button onClick={onBack} style={{ minWidth: "44px", minHeight: "44px" }}>
+        Back
+      </button>
+    </div>
+  );
+};
+
+export default Leaderboard;
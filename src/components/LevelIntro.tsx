@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { LevelIntroProps } from '../types/game.types';
+import { INTRO_STEP_MS } from '../utils/gameMachine';
+import { tokens } from '../theme/theme';
+
+const EXIT_MS = 250;
+
+// The card before each level: what's next, how to play it, then 3-2-1.
+// Reads the scheduler, so it freezes with pause.
+const LevelIntro: React.FC<LevelIntroProps> = ({
+  game,
+  level,
+  levelCount,
+  startedAt,
+  durationMs,
+  now,
+}) => {
+  const [remaining, setRemaining] = useState<number>(durationMs);
+
+  useEffect(() => {
+    const update = (): void => {
+      setRemaining(Math.max(0, durationMs - (now() - startedAt)));
+    };
+    update();
+
+    const interval = setInterval(update, 50);
+    return () => clearInterval(interval);
+  }, [startedAt, durationMs, now]);
+
+  const count = Math.max(1, Math.ceil(remaining / INTRO_STEP_MS));
+
+  return (
+    <div
+      className={remaining <= EXIT_MS ? 'intro-exit' : 'intro-enter'}
+      style={{
+        flexGrow: 1,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '0.5rem',
+        textAlign: 'center',
+        color: tokens.color.surfaceText,
+      }}
+    >
+      <p style={{ margin: 0, color: tokens.color.textMuted }}>
+        {levelCount !== null ? `Level ${level} of ${levelCount}` : `Round ${level}`}
+      </p>
+      <h2 style={{ margin: 0, fontSize: '2rem' }}>
+        <span aria-hidden="true">{game.icon}</span> {game.name}
+      </h2>
+      <p style={{ margin: 0, maxWidth: '32rem' }}>{game.instructions}</p>
+      <p
+        key={count}
+        role="timer"
+        aria-live="assertive"
+        className="intro-count"
+        style={{
+          fontSize: '6rem',
+          fontWeight: 'bold',
+          fontFamily: 'monospace',
+          margin: 0,
+          color: tokens.color.primary,
+        }}
+      >
+        {count}
+      </p>
+    </div>
+  );
+};
+
+export default LevelIntro;
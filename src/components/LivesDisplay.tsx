@@ -0,0 +1,29 @@
+import React from 'react';
+import { LivesDisplayProps } from '../types/game.types';
+import { tokens } from '../theme/theme';
+
+const LivesDisplay: React.FC<LivesDisplayProps> = ({ lives, maxLives, round }) => {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+      <span style={{ fontSize: '1rem' }}>Round {round}</span>
+      <span
+        aria-label={`${lives} of ${maxLives} lives left`}
+        style={{ fontSize: '1.5rem', letterSpacing: '0.25rem' }}
+      >
+        {Array.from({ length: maxLives }, (_, index) => (
+          <span
+            key={index}
+            aria-hidden="true"
+            style={{
+              color: index < lives ? tokens.color.danger : tokens.color.border,
+            }}
+          >
+            {index < lives ? '♥' : '♡'}
+          </span>
+        ))}
+      </span>
+    </div>
+  );
+};
+
+export default LivesDisplay;
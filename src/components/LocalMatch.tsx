@@ -0,0 +1,294 @@
+import React, { useState, useCallback, useMemo, useRef } from "react";
+import {
+  DifficultyTier,
+  LocalMatchProps,
+  MatchPlayerResult,
+  MatchSetup,
+  MatchSlot,
+  MatchVariant,
+} from "../types/game.types";
+import GameContainer from "./GameContainer";
+import MatchResults from "./MatchResults";
+import { getRegisteredMicrogames } from "./microgames";
+import { DIFFICULTY_TIERS } from "../utils/difficulty";
+import { formatTime } from "../utils/formatTime";
+import { createMatchSetup, getPlayerName } from "../utils/match";
+import { tokens } from "../theme/theme";
+
+const VARIANTS: [MatchVariant, string, string][] = [
+  ["hot-seat", "Hot-seat", "Take turns on the same puzzles; fastest time wins"],
+  ["split-screen", "Split-screen", "Race side by side; first to finish wins"],
+];
+
+const LocalMatch: React.FC<LocalMatchProps> = ({ onBack }) => {
+  const [phase, setPhase] = useState<
+    "setup" | "playing" | "handoff" | "results"
+  >("setup");
+  const [names, setNames] = useState<string[]>(["", ""]);
+  const [variant, setVariant] = useState<MatchVariant>("hot-seat");
+  const [difficulty, setDifficulty] = useState<DifficultyTier>("normal");
+  const [setup, setSetup] = useState<MatchSetup | null>(null);
+  const [turn, setTurn] = useState<number>(0); // hot-seat only
+  const [players, setPlayers] = useState<MatchPlayerResult[]>([]);
+
+  // Latest report from each side; the split-screen loser's partial run is
+  // whatever it had finished when the winner crossed the line
+  const latest = useRef<(MatchPlayerResult | null)[]>([null, null]);
+  const decided = useRef<boolean>(false);
+
+  const startMatch = (): void => {
+    latest.current = [null, null];
+    decided.current = false;
+    setSetup(
+      createMatchSetup(
+        getRegisteredMicrogames().map((game) => game.id),
+        difficulty
+      )
+    );
+    setTurn(0);
+    setPlayers([]);
+    setPhase("playing");
+  };
+
+  const handleUpdate = useCallback(
+    (index: number, result: MatchPlayerResult): void => {
+      latest.current[index] = result;
+      if (!result.finished || decided.current) return;
+
+      if (variant === "hot-seat" && index === 0) {
+        setPhase("handoff");
+        return;
+      }
+
+      decided.current = true;
+      setPlayers(
+        latest.current.map(
+          (player, i) =>
+            player ?? {
+              name: getPlayerName(names[i], i),
+              finished: false,
+              totalTime: 0,
+              levelResults: [],
+            }
+        )
+      );
+      setPhase("results");
+    },
+    [variant, names]
+  );
+
+  // Stable per player so the containers don't re-report on every render
+  const handlers = useMemo(
+    () =>
+      [0, 1].map(
+        (index) => (result: MatchPlayerResult) => handleUpdate(index, result)
+      ),
+    [handleUpdate]
+  );
+  const slots = useMemo<MatchSlot[]>(
+    () =>
+      setup
+        ? names.map((name, index) => ({
+            setup,
+            playerName: getPlayerName(name, index),
+            shared: variant === "split-screen",
+          }))
+        : [],
+    [setup, names, variant]
+  );
+
+  if (phase === "results") {
+    return (
+      <MatchResults
+        variant={variant}
+        players={players}
+        onRematch={startMatch}
+        onExit={() => setPhase("setup")}
+      />
+    );
+  }
+
+  if (phase === "handoff") {
+    const first = latest.current[0];
+    return (
+      <div style={{ textAlign: "center", padding: "2rem" }}>
+        <h1>Pass to {slots[1].playerName}</h1>
+        {first && (
+          <p>
+            {first.name} finished in{" "}
+            <strong style={{ fontFamily: "monospace" }}>
+              {formatTime(first.totalTime)}
+            </strong>
+            . Same puzzles, your turn.
+          </p>
+        )}
+        <button
+          onClick={() => {
+            setTurn(1);
+            setPhase("playing");
+          }}
+          autoFocus
+          style={{
+            fontSize: "1.2rem",
+            padding: "1rem 2rem",
+            minWidth: "44px",
+            minHeight: "44px",
+          }}
+        >
+          Ready
+        </button>
+      </div>
+    );
+  }
+
+  if (phase === "playing" && setup) {
+    if (variant === "hot-seat") {
+      return (
+        <GameContainer
+          key={`${setup.seed}-${turn}`}
+          match={slots[turn]}
+          onMatchUpdate={handlers[turn]}
+        />
+      );
+    }
+
+    // Each half is its own container with its own clock and touch region
+    return (
+      <div style={{ display: "flex" }}>
+        {slots.map((slot, index) => (
+          <div
+            key={`${setup.seed}-${index}`}
+            style={{
+              flex: 1,
+              minWidth: 0,
+              borderLeft:
+                index > 0 ? `2px solid ${tokens.color.border}` : undefined,
+            }}
+          >
+            <GameContainer match={slot} onMatchUpdate={handlers[index]} />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        textAlign: "center",
+        padding: "2rem",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1>2 Players</h1>
+
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "0.5rem",
+          margin: "2rem auto",
+          maxWidth: "400px",
+        }}
+      >
+        {names.map((name, index) => (
+          <label key={index} style={{ textAlign: "left" }}>
+            Player {index + 1}
+            <input
+              type="text"
+              value={name}
+              maxLength={20}
+              placeholder={`Player ${index + 1}`}
+              onChange={(e) =>
+                setNames((prev) =>
+                  prev.map((value, i) => (i === index ? e.target.value : value))
+                )
+              }
+              style={{
+                display: "block",
+                width: "100%",
+                fontSize: "1rem",
+                minHeight: "44px",
+                boxSizing: "border-box",
+              }}
+            />
+          </label>
+        ))}
+      </div>
+
+      <fieldset
+        style={{
+          border: `1px solid ${tokens.color.border}`,
+          borderRadius: "8px",
+          maxWidth: "400px",
+          margin: "0 auto 1rem",
+          textAlign: "left",
+        }}
+      >
+        <legend>Mode</legend>
+        {VARIANTS.map(([value, label, description]) => (
+          <label
+            key={value}
+            style={{ display: "flex", gap: "0.5rem", minHeight: "44px" }}
+          >
+            <input
+              type="radio"
+              name="match-variant"
+              checked={variant === value}
+              onChange={() => setVariant(value)}
+            />
+            <span>
+              <strong>{label}</strong>
+              <br />
+              <small style={{ color: tokens.color.textMuted }}>
+                {description}
+              </small>
+            </span>
+          </label>
+        ))}
+      </fieldset>
+
+      <label>
+        Difficulty:{" "}
+        <select
+          value={difficulty}
+          onChange={(e) => setDifficulty(e.target.value as DifficultyTier)}
+          style={{ fontSize: "1rem", minHeight: "44px" }}
+        >
+          {DIFFICULTY_TIERS.map((tier) => (
+            <option key={tier} value={tier}>
+              {tier.charAt(0).toUpperCase() + tier.slice(1)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div
+        style={{
+          marginTop: "2rem",
+          display: "flex",
+          justifyContent: "center",
+          gap: "1rem",
+        }}
+      >
+        <button onClick={onBack} style={{ minWidth: "44px", minHeight: "44px" }}>
+          Back
+        </button>
+        <button
+          onClick={startMatch}
+          style={{
+            fontSize: "1.2rem",
+            padding: "1rem 2rem",
+            minWidth: "44px",
+            minHeight: "44px",
+          }}
+        >
+          Start Match
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LocalMatch;
@@ -0,0 +1,187 @@
+import React from "react";
+import { LevelResult, MatchResultsProps } from "../types/game.types";
+import { getMicrogameLabel } from "./microgames";
+import { formatTime } from "../utils/formatTime";
+import { computeSplits } from "../utils/timing";
+import { getMatchWinner } from "../utils/match";
+import { tokens } from "../theme/theme";
+
+const getStatusSymbol = (result: LevelResult): string =>
+  result.completed
+    ? "✓"
+    : result.skipped
+    ? "⏭"
+    : result.timedOut
+    ? "⌛"
+    : "○";
+
+const MatchResults: React.FC<MatchResultsProps> = ({
+  variant,
+  players,
+  onRematch,
+  onExit,
+}) => {
+  const winner = getMatchWinner(players);
+  const splits = players.map((player) => computeSplits(player.levelResults));
+  const levelCount = Math.max(
+    ...players.map((player) => player.levelResults.length)
+  );
+  // Both sides played the same order, so any finished run names the levels
+  const levelGames =
+    players.find((player) => player.levelResults.length === levelCount)
+      ?.levelResults ?? [];
+
+  const columns = `2fr ${players.map(() => "1fr").join(" ")}`;
+
+  return (
+    <div
+      style={{
+        textAlign: "center",
+        padding: "2rem",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1>
+        {winner === null ? "🤝 It's a draw!" : `🏆 ${players[winner].name} wins!`}
+      </h1>
+      <p style={{ color: tokens.color.textMuted }}>
+        {variant === "hot-seat"
+          ? "Hot-seat · fastest total time"
+          : variant === "online"
+          ? "Online race · fastest total time"
+          : "Split-screen · first to finish"}
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: `repeat(${players.length}, 1fr)`,
+          gap: "1rem",
+          margin: "2rem 0",
+        }}
+      >
+        {players.map((player, index) => (
+          <div key={index}>
+            <div
+              style={{
+                fontSize: "2rem",
+                fontWeight: "bold",
+                fontFamily: "monospace",
+                color:
+                  index === winner
+                    ? tokens.color.success
+                    : tokens.color.textMuted,
+              }}
+            >
+              {player.finished ? formatTime(player.totalTime) : "DNF"}
+            </div>
+            <div>{player.name}</div>
+          </div>
+        ))}
+      </div>
+
+      <h3>Level Comparison:</h3>
+      <div
+        style={{
+          display: "grid",
+          gap: "0.5rem",
+          textAlign: "left",
+          maxWidth: "520px",
+          margin: "0 auto 2rem",
+        }}
+      >
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: columns,
+            gap: "0.5rem",
+            padding: "0 0.5rem",
+            color: tokens.color.textMuted,
+          }}
+        >
+          <small>Level</small>
+          {players.map((player, index) => (
+            <small key={index} style={{ textAlign: "right" }}>
+              {player.name}
+            </small>
+          ))}
+        </div>
+        {levelGames.map((level, levelIndex) => {
+          const segments = splits.map(
+            (playerSplits) => playerSplits[levelIndex]?.segment ?? null
+          );
+          const played = segments.filter(
+            (segment): segment is number => segment !== null
+          );
+          // Only call a level for someone when both players got through it
+          const fastest =
+            played.length === players.length ? Math.min(...played) : null;
+          const { icon, name } = getMicrogameLabel(level.gameId);
+
+          return (
+            <div
+              key={levelIndex}
+              style={{
+                display: "grid",
+                gridTemplateColumns: columns,
+                alignItems: "center",
+                gap: "0.5rem",
+                padding: "0.5rem",
+                backgroundColor: tokens.color.surfaceMuted,
+                color: tokens.color.surfaceText,
+                borderRadius: "4px",
+              }}
+            >
+              <span>
+                {icon} Level {levelIndex + 1}: {name}
+              </span>
+              {players.map((player, index) => {
+                const segment = segments[index];
+                const best = segment !== null && segment === fastest;
+                return (
+                  <span
+                    key={index}
+                    style={{
+                      fontFamily: "monospace",
+                      textAlign: "right",
+                      fontWeight: best ? "bold" : undefined,
+                      color: best ? tokens.color.success : undefined,
+                    }}
+                  >
+                    {segment === null
+                      ? "—"
+                      : `${getStatusSymbol(
+                          player.levelResults[levelIndex]
+                        )} ${formatTime(segment)}`}
+                  </span>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ display: "flex", justifyContent: "center", gap: "1rem" }}>
+        <button onClick={onExit} style={{ minWidth: "44px", minHeight: "44px" }}>
+          New match
+        </button>
+        {onRematch && (
+          <button
+            onClick={onRematch}
+            style={{
+              fontSize: "1.2rem",
+              padding: "1rem 2rem",
+              minWidth: "44px",
+              minHeight: "44px",
+            }}
+          >
+            Rematch
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MatchResults;
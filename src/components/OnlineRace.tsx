@@ -0,0 +1,421 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import {
+  DifficultyTier,
+  LevelResult,
+  MatchPlayerResult,
+  MatchSetup,
+  MatchSlot,
+  OnlineRaceProps,
+  RaceClient,
+  RaceConnectionState,
+  RaceRoom,
+  RaceServerMessage,
+} from "../types/game.types";
+import GameContainer from "./GameContainer";
+import MatchResults from "./MatchResults";
+import ProgressTracker from "./ProgressTracker";
+import { getRegisteredMicrogames, isRegisteredMicrogame } from "./microgames";
+import { DIFFICULTY_TIERS } from "../utils/difficulty";
+import { createMatchSetup, getPlayerName } from "../utils/match";
+import { createRaceClient, getRaceServerUrl } from "../utils/raceClient";
+import {
+  RACE_MAX_NAME_LENGTH,
+  RACE_PROTOCOL_VERSION,
+  createRoomCode,
+  normalizeRoomCode,
+} from "../utils/raceProtocol";
+import { tokens } from "../theme/theme";
+
+// Levels already played, plus the one in progress
+const getCurrentLevel = (levelResults: LevelResult[]): number =>
+  levelResults.filter((result) => result.endedAt !== null).length + 1;
+
+// The room's games come from whoever created it, possibly on another build
+const isPlayableSetup = (setup: MatchSetup): boolean =>
+  Array.isArray(setup.gameIds) &&
+  setup.gameIds.length > 0 &&
+  setup.gameIds.every(isRegisteredMicrogame);
+
+const OnlineRace: React.FC<OnlineRaceProps> = ({ onBack }) => {
+  const [name, setName] = useState<string>("");
+  const [roomCode, setRoomCode] = useState<string>("");
+  const [difficulty, setDifficulty] = useState<DifficultyTier>("normal");
+  const [connection, setConnection] = useState<RaceConnectionState>("closed");
+  const [room, setRoom] = useState<RaceRoom | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Captured once when the race starts so room updates don't remount the game
+  const [raceSetup, setRaceSetup] = useState<MatchSetup | null>(null);
+
+  const client = useRef<RaceClient | null>(null);
+  // What a reconnect needs to rejoin as the same player and catch the room up
+  const joinRef = useRef<{
+    room: string;
+    name: string;
+    setup: MatchSetup;
+  } | null>(null);
+  const playerIdRef = useRef<string | undefined>(undefined);
+  const lastReport = useRef<MatchPlayerResult | null>(null);
+
+  const leave = useCallback((): void => {
+    client.current?.close();
+    client.current = null;
+    playerIdRef.current = undefined;
+    lastReport.current = null;
+    setRoom(null);
+    setPlayerId(null);
+    setRaceSetup(null);
+  }, []);
+
+  useEffect(() => leave, [leave]);
+
+  const report = useCallback((result: MatchPlayerResult): void => {
+    lastReport.current = result;
+    client.current?.send(
+      result.finished
+        ? {
+            type: "finish",
+            totalTime: result.totalTime,
+            levelResults: result.levelResults,
+          }
+        : {
+            type: "progress",
+            currentLevel: getCurrentLevel(result.levelResults),
+            levelResults: result.levelResults,
+          }
+    );
+  }, []);
+
+  const handleMessage = useCallback(
+    (message: RaceServerMessage): void => {
+      switch (message.type) {
+        case "welcome":
+          if (!isPlayableSetup(message.room.setup)) {
+            leave();
+            setError(
+              "This room plays games this version doesn't have. Try updating, or join another room."
+            );
+            break;
+          }
+          playerIdRef.current = message.playerId;
+          setPlayerId(message.playerId);
+          setRoom(message.room);
+          setError(null);
+          // Anything played while disconnected goes out straight away
+          if (lastReport.current) report(lastReport.current);
+          break;
+        case "room":
+          setRoom(message.room);
+          break;
+        case "error":
+          setError(message.message);
+          if (
+            message.code === "version-mismatch" ||
+            message.code === "room-full"
+          ) {
+            leave();
+          }
+          break;
+      }
+    },
+    [leave, report]
+  );
+
+  const join = (code: string): void => {
+    leave();
+    setError(null);
+    joinRef.current = {
+      room: code,
+      name: getPlayerName(name, 0),
+      setup: createMatchSetup(
+        getRegisteredMicrogames().map((game) => game.id),
+        difficulty
+      ),
+    };
+    client.current = createRaceClient(getRaceServerUrl(), {
+      onMessage: handleMessage,
+      onStateChange: setConnection,
+      onOpen: () => {
+        if (!joinRef.current) return;
+        client.current?.send({
+          type: "join",
+          version: RACE_PROTOCOL_VERSION,
+          ...joinRef.current,
+          playerId: playerIdRef.current,
+        });
+      },
+    });
+  };
+
+  useEffect(() => {
+    if (room && room.state !== "lobby" && !raceSetup) setRaceSetup(room.setup);
+  }, [room, raceSetup]);
+
+  const slot = useMemo<MatchSlot | null>(
+    () =>
+      raceSetup && joinRef.current
+        ? { setup: raceSetup, playerName: joinRef.current.name, shared: false }
+        : null,
+    [raceSetup]
+  );
+
+  const me = room?.players.find((player) => player.id === playerId);
+  const opponents =
+    room?.players.filter((player) => player.id !== playerId) ?? [];
+
+  const connectionBanner = connection === "reconnecting" && (
+    <p role="status" style={{ margin: 0, color: tokens.color.warning }}>
+      Connection lost, reconnecting… Your run keeps going.
+    </p>
+  );
+
+  if (room?.state === "finished" && me?.finished) {
+    return (
+      <MatchResults
+        variant="online"
+        players={room.players.map((player) => ({
+          name: player.lateJoin ? `${player.name} (late)` : player.name,
+          finished: player.finished,
+          totalTime: player.totalTime ?? 0,
+          levelResults: player.levelResults,
+        }))}
+        onExit={leave}
+      />
+    );
+  }
+
+  if (room && room.state !== "lobby" && slot) {
+    return (
+      <div style={{ display: "flex" }}>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          {me?.finished ? (
+            <div style={{ textAlign: "center", padding: "2rem" }}>
+              <h2>🏁 Finished!</h2>
+              <p>Waiting for the others to finish…</p>
+            </div>
+          ) : (
+            <GameContainer
+              key={slot.setup.seed}
+              match={slot}
+              onMatchUpdate={report}
+            />
+          )}
+        </div>
+        <aside
+          aria-label="Opponents"
+          style={{
+            width: "220px",
+            padding: "1rem",
+            borderLeft: `2px solid ${tokens.color.border}`,
+            display: "flex",
+            flexDirection: "column",
+            gap: "1rem",
+          }}
+        >
+          {connectionBanner}
+          {opponents.map((player) => (
+            <div
+              key={player.id}
+              style={{ opacity: player.connected ? 1 : 0.5 }}
+            >
+              <strong>
+                {player.name}
+                {player.finished && " 🏁"}
+              </strong>
+              {!player.connected && (
+                <small style={{ color: tokens.color.textMuted }}>
+                  {" "}
+                  (disconnected)
+                </small>
+              )}
+              {player.levelResults.length > 0 ? (
+                <ProgressTracker
+                  currentLevel={player.currentLevel}
+                  levelResults={player.levelResults}
+                />
+              ) : (
+                <div>
+                  <small style={{ color: tokens.color.textMuted }}>
+                    Not started
+                  </small>
+                </div>
+              )}
+            </div>
+          ))}
+        </aside>
+      </div>
+    );
+  }
+
+  if (room) {
+    const isHost = room.hostId === playerId;
+    return (
+      <div
+        style={{
+          textAlign: "center",
+          padding: "2rem",
+          maxWidth: "600px",
+          margin: "0 auto",
+        }}
+      >
+        <h1>Room {room.code}</h1>
+        <p style={{ color: tokens.color.textMuted }}>
+          Share the code so others can join. {room.setup.gameIds.length} levels
+          on {room.setup.difficulty}.
+        </p>
+        {connectionBanner}
+
+        <ul style={{ listStyle: "none", padding: 0, margin: "2rem 0" }}>
+          {room.players.map((player) => (
+            <li
+              key={player.id}
+              style={{
+                padding: "0.5rem",
+                opacity: player.connected ? 1 : 0.5,
+              }}
+            >
+              {player.id === room.hostId && "👑 "}
+              {player.name}
+              {player.id === playerId && " (you)"}
+            </li>
+          ))}
+        </ul>
+
+        <div style={{ display: "flex", justifyContent: "center", gap: "1rem" }}>
+          <button onClick={leave} style={{ minWidth: "44px", minHeight: "44px" }}>
+            Leave
+          </button>
+          {isHost ? (
+            <button
+              onClick={() => client.current?.send({ type: "start" })}
+              disabled={room.players.filter((p) => p.connected).length < 2}
+              style={{
+                fontSize: "1.2rem",
+                padding: "1rem 2rem",
+                minWidth: "44px",
+                minHeight: "44px",
+              }}
+            >
+              Start race
+            </button>
+          ) : (
+            <p>Waiting for the host to start…</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        textAlign: "center",
+        padding: "2rem",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1>Online Race</h1>
+      <p style={{ color: tokens.color.textMuted }}>
+        Race friends on the same puzzles. Create a room and share its code, or
+        join one.
+      </p>
+
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "0.5rem",
+          margin: "2rem auto",
+          maxWidth: "400px",
+          textAlign: "left",
+        }}
+      >
+        <label>
+          Your name
+          <input
+            type="text"
+            value={name}
+            maxLength={RACE_MAX_NAME_LENGTH}
+            placeholder="Player 1"
+            onChange={(e) => setName(e.target.value)}
+            style={{
+              display: "block",
+              width: "100%",
+              fontSize: "1rem",
+              minHeight: "44px",
+              boxSizing: "border-box",
+            }}
+          />
+        </label>
+        <label>
+          Room code
+          <input
+            type="text"
+            value={roomCode}
+            maxLength={4}
+            placeholder="ABCD"
+            onChange={(e) => setRoomCode(normalizeRoomCode(e.target.value))}
+            style={{
+              display: "block",
+              width: "100%",
+              fontSize: "1rem",
+              minHeight: "44px",
+              boxSizing: "border-box",
+              textTransform: "uppercase",
+            }}
+          />
+        </label>
+        <label>
+          Difficulty (new rooms):{" "}
+          <select
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value as DifficultyTier)}
+            style={{ fontSize: "1rem", minHeight: "44px" }}
+          >
+            {DIFFICULTY_TIERS.map((tier) => (
+              <option key={tier} value={tier}>
+                {tier.charAt(0).toUpperCase() + tier.slice(1)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {(connection === "connecting" || connection === "reconnecting") && (
+        <p role="status">Connecting to {getRaceServerUrl()}…</p>
+      )}
+      {error && (
+        <p role="alert" style={{ color: tokens.color.danger }}>
+          {error}
+        </p>
+      )}
+
+      <div style={{ display: "flex", justifyContent: "center", gap: "1rem" }}>
+        <button onClick={onBack} style={{ minWidth: "44px", minHeight: "44px" }}>
+          Back
+        </button>
+        <button
+          onClick={() => join(roomCode)}
+          disabled={roomCode.length !== 4}
+          style={{ minWidth: "44px", minHeight: "44px" }}
+        >
+          Join room
+        </button>
+        <button
+          onClick={() => join(createRoomCode())}
+          style={{
+            fontSize: "1.2rem",
+            padding: "1rem 2rem",
+            minWidth: "44px",
+            minHeight: "44px",
+          }}
+        >
+          Create room
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OnlineRace;
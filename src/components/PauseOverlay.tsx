@@ -0,0 +1,49 @@
+import React from 'react';
+import { PauseOverlayProps } from '../types/game.types';
+import { tokens } from '../theme/theme';
+
+const PauseOverlay: React.FC<PauseOverlayProps> = ({ onResume }) => {
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Game paused"
+      style={{
+        position: 'absolute',
+        inset: 0,
+        zIndex: 2000,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: tokens.color.overlay,
+        color: tokens.color.overlayText,
+      }}
+    >
+      <h1 style={{ marginBottom: '0.5rem' }}>Paused</h1>
+      <p style={{ marginBottom: '2rem', color: tokens.color.overlayTextMuted }}>
+        The clock is stopped. Press Esc or tap Resume to continue.
+      </p>
+      <button
+        onClick={onResume}
+        autoFocus
+        style={{
+          backgroundColor: tokens.color.success,
+          color: tokens.color.onPrimary,
+          border: 'none',
+          borderRadius: '8px',
+          padding: '1rem 2rem',
+          fontSize: '1.2rem',
+          fontWeight: 'bold',
+          cursor: 'pointer',
+          minWidth: '44px',
+          minHeight: '44px',
+        }}
+      >
+        Resume
+      </button>
+    </div>
+  );
+};
+
+export default PauseOverlay;
@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useRef } from "react";
+import {
+  ControlAction,
+  DifficultyTier,
+  PracticeAttempt,
+  PracticeModeProps,
+} from "../types/game.types";
+import { getMicrogame, getRegisteredMicrogames } from "./microgames";
+import { createRng, randomSeed } from "../utils/rng";
+import { createScheduler } from "../utils/scheduler";
+import { createChannel, createInputChannel } from "../utils/input";
+import { DIFFICULTY_TIERS } from "../utils/difficulty";
+import { formatTime } from "../utils/formatTime";
+import { getPracticeStats } from "../utils/stats";
+import { sound } from "../utils/audio";
+import { useDeviceControls } from "../hooks/useDeviceControls";
+import { usePerKey } from "../hooks/usePerKey";
+import { tokens } from "../theme/theme";
+
+const formatOptionalTime = (time: number | null): string =>
+  time === null ? "—" : formatTime(time);
+
+const PracticeMode: React.FC<PracticeModeProps> = ({ onBack }) => {
+  const [gameId, setGameId] = useState<string | null>(null);
+  const [difficulty, setDifficulty] = useState<DifficultyTier>("normal");
+  // Bumped after every solve so the microgame remounts with a new puzzle
+  const [round, setRound] = useState<number>(0);
+  const [attempts, setAttempts] = useState<PracticeAttempt[]>([]);
+  const [mistakes, setMistakes] = useState<number>(0);
+
+  const [scheduler] = useState(() => createScheduler());
+  const [controls] = useState(() => createChannel<ControlAction>());
+  useDeviceControls(controls, gameId !== null);
+
+  const roundStart = useRef<number>(0);
+  const roundMistakes = useRef<number>(0);
+  const roundSolved = useRef<boolean>(false);
+  // Wins land after a short delay, possibly once a new puzzle is up; each
+  // callback names its puzzle and stale ones are dropped
+  const puzzle = `${gameId}-${difficulty}-${round}`;
+  const activePuzzle = useRef<string>(puzzle);
+
+  // Fresh seed and input channel per puzzle
+  const rng = usePerKey(puzzle, () => createRng(randomSeed()));
+  const input = usePerKey(puzzle, createInputChannel);
+
+  useEffect(() => {
+    activePuzzle.current = puzzle;
+    roundStart.current = scheduler.now();
+    roundMistakes.current = 0;
+    roundSolved.current = false;
+    setMistakes(0);
+  }, [scheduler, puzzle]);
+
+  const nextPuzzle = (): void => setRound((prev) => prev + 1);
+
+  const handleComplete = (solved: string): void => {
+    if (solved !== activePuzzle.current || roundSolved.current) return;
+    roundSolved.current = true;
+
+    setAttempts((prev) => [
+      ...prev,
+      {
+        difficulty,
+        solveTime: scheduler.now() - roundStart.current,
+        mistakes: roundMistakes.current,
+      },
+    ]);
+    nextPuzzle();
+  };
+
+  const handleMistake = (missed: string): void => {
+    if (missed !== activePuzzle.current) return;
+    sound.play("wrong");
+    roundMistakes.current += 1;
+    setMistakes(roundMistakes.current);
+  };
+
+  const selectGame = (id: string | null): void => {
+    setGameId(id);
+    setAttempts([]);
+    nextPuzzle();
+  };
+
+  if (gameId === null) {
+    return (
+      <div
+        style={{
+          textAlign: "center",
+          padding: "2rem",
+          maxWidth: "600px",
+          margin: "0 auto",
+        }}
+      >
+        <h1>Practice</h1>
+        <p style={{ color: tokens.color.textMuted }}>
+          Play any microgame on repeat. No clock, no penalties.
+        </p>
+
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: "0.5rem",
+            margin: "2rem auto",
+            maxWidth: "400px",
+          }}
+        >
+          {getRegisteredMicrogames().map((game) => (
+            <button
+              key={game.id}
+              onClick={() => selectGame(game.id)}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "1rem",
+                textAlign: "left",
+                minHeight: "44px",
+              }}
+            >
+              <span style={{ fontSize: "2rem" }} aria-hidden="true">
+                {game.icon}
+              </span>
+              <span>
+                <strong>{game.name}</strong>
+                <br />
+                <small style={{ color: tokens.color.textMuted }}>
+                  {game.instructions}
+                </small>
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <button onClick={onBack} style={{ minWidth: "44px", minHeight: "44px" }}>
+          Back
+        </button>
+      </div>
+    );
+  }
+
+  const { name, component: CurrentGame } = getMicrogame(gameId);
+  const tierAttempts = attempts.filter(
+    (attempt) => attempt.difficulty === difficulty
+  );
+  const stats = getPracticeStats(tierAttempts);
+  const lastAttempt =
+    tierAttempts.length > 0 ? tierAttempts[tierAttempts.length - 1] : null;
+
+  const statColumns: [string, string][] = [
+    ["Solved", String(stats.solved)],
+    ["Last", formatOptionalTime(lastAttempt?.solveTime ?? null)],
+    ["Average", formatOptionalTime(stats.averageTime)],
+    ["Best", formatOptionalTime(stats.bestTime)],
+    [
+      "Mistakes / solve",
+      stats.averageMistakes === null ? "—" : stats.averageMistakes.toFixed(1),
+    ],
+  ];
+
+  return (
+    <div
+      style={{
+        padding: "1rem",
+        height: "100vh",
+        display: "flex",
+        flexDirection: "column",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: "0.5rem",
+          marginBottom: "1rem",
+        }}
+      >
+        <strong>Practice · {name}</strong>
+        <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+          <label>
+            Difficulty:{" "}
+            <select
+              value={difficulty}
+              onChange={(e) => setDifficulty(e.target.value as DifficultyTier)}
+              style={{ fontSize: "1rem", minHeight: "44px" }}
+            >
+              {DIFFICULTY_TIERS.map((tier) => (
+                <option key={tier} value={tier}>
+                  {tier.charAt(0).toUpperCase() + tier.slice(1)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={nextPuzzle}
+            style={{ minWidth: "44px", minHeight: "44px" }}
+          >
+            New puzzle
+          </button>
+          <button
+            onClick={() => selectGame(null)}
+            style={{ minWidth: "44px", minHeight: "44px" }}
+          >
+            All games
+          </button>
+        </div>
+      </div>
+
+      <div
+        aria-label="Practice stats"
+        style={{
+          display: "grid",
+          gridTemplateColumns: `repeat(${statColumns.length}, 1fr)`,
+          gap: "0.5rem",
+          padding: "0.5rem",
+          marginBottom: "1rem",
+          borderRadius: "8px",
+          backgroundColor: tokens.color.surfaceMuted,
+          color: tokens.color.surfaceText,
+          textAlign: "center",
+        }}
+      >
+        {statColumns.map(([label, value]) => (
+          <div key={label}>
+            <div style={{ fontFamily: "monospace", fontWeight: "bold" }}>
+              {value}
+            </div>
+            <small style={{ color: tokens.color.textMuted }}>{label}</small>
+          </div>
+        ))}
+      </div>
+
+      <p
+        aria-live="polite"
+        style={{ margin: 0, minHeight: "1.5rem", color: tokens.color.danger }}
+      >
+        {mistakes > 0 &&
+          `${mistakes} mistake${mistakes === 1 ? "" : "s"} this puzzle`}
+      </p>
+
+      <div style={{ flexGrow: 1, display: "flex", flexDirection: "column" }}>
+        <CurrentGame
+          key={puzzle}
+          onComplete={() => handleComplete(puzzle)}
+          onHit={() => sound.play("correct")}
+          onMistake={() => handleMistake(puzzle)}
+          level={round + 1}
+          rng={rng}
+          difficulty={difficulty}
+          scheduler={scheduler}
+          input={input}
+          controls={controls}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PracticeMode;
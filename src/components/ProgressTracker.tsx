@@ -1,11 +1,13 @@
 import React from 'react';
 import { ProgressTrackerProps } from '../types/game.types';
+import { getMicrogameLabel } from './microgames';
+import { getLevelStatus as getResultStatus } from '../utils/export';
+import { tokens } from '../theme/theme';
 
 const ProgressTracker: React.FC<ProgressTrackerProps> = ({ currentLevel, levelResults }) => {
   const getLevelStatus = (levelIndex: number): string => {
     if (levelIndex + 1 < currentLevel) {
-      const result = levelResults[levelIndex];
-      return result.completed ? 'completed' : result.skipped ? 'skipped' : 'pending';
+      return getResultStatus(levelResults[levelIndex]);
     } else if (levelIndex + 1 === currentLevel) {
       return 'current';
     } else {
@@ -15,11 +17,12 @@ const ProgressTracker: React.FC<ProgressTrackerProps> = ({ currentLevel, levelRe
 
   const getStatusColor = (status: string): string => {
     switch (status) {
-      case 'completed': return '#4CAF50';
-      case 'skipped': return '#FF9800';
-      case 'current': return '#2196F3';
-      case 'pending': return '#E0E0E0';
-      default: return '#E0E0E0';
+      case 'completed': return tokens.color.success;
+      case 'skipped': return tokens.color.warning;
+      case 'timed-out': return tokens.color.timedOut;
+      case 'current': return tokens.color.primary;
+      case 'pending': return tokens.color.border;
+      default: return tokens.color.border;
     }
   };
 
@@ -27,6 +30,7 @@ const ProgressTracker: React.FC<ProgressTrackerProps> = ({ currentLevel, levelRe
     switch (status) {
       case 'completed': return '✓';
       case 'skipped': return '⏭';
+      case 'timed-out': return '⌛';
       case 'current': return '●';
       case 'pending': return '○';
       default: return '○';
@@ -36,25 +40,26 @@ const ProgressTracker: React.FC<ProgressTrackerProps> = ({ currentLevel, levelRe
   return (
     <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
       <span style={{ fontSize: '1rem', marginRight: '0.5rem' }}>
-        {currentLevel}/5
+        {currentLevel}/{levelResults.length}
       </span>
-      {Array.from({ length: 5 }, (_, index) => {
+      {levelResults.map((result, index) => {
         const status = getLevelStatus(index);
         return (
           <div
             key={index}
+            title={getMicrogameLabel(result.gameId).name}
             style={{
               width: '32px',
               height: '32px',
               borderRadius: '50%',
               backgroundColor: getStatusColor(status),
-              color: status === 'pending' ? '#666' : 'white',
+              color: status === 'pending' ? tokens.color.textMuted : tokens.color.onPrimary,
               display: 'flex',
               alignItems: 'center',
               justifyContent: 'center',
               fontSize: '1rem',
               fontWeight: 'bold',
-              border: status === 'current' ? '3px solid #1976D2' : 'none',
+              border: status === 'current' ? `3px solid ${tokens.color.primaryStrong}` : 'none',
             }}
           >
             {getStatusSymbol(status)}
@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { ControlAction, ReplayViewerProps } from "../types/game.types";
+import {
+  getMicrogame,
+  getMicrogameLabel,
+  isRegisteredMicrogame,
+} from "./microgames";
+import { createRng } from "../utils/rng";
+import { createScaledClock, createScheduler } from "../utils/scheduler";
+import { createChannel, createInputChannel } from "../utils/input";
+import { usePerKey } from "../hooks/usePerKey";
+import { tokens } from "../theme/theme";
+
+const SPEEDS = [1, 2, 4];
+
+// How long past the recorded duration a completed level may run before we
+// assume playback diverged from the original and move on
+const DIVERGENCE_GRACE_MS = 2000;
+
+const noop = (): void => {};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onExit }) => {
+  const [speed, setSpeed] = useState<number>(1);
+  const [session, setSession] = useState<number>(0);
+  const [levelIndex, setLevelIndex] = useState<number>(0);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [divergedLevels, setDivergedLevels] = useState<number[]>([]);
+  // Never emits: the keyboard and gamepad don't drive a replay
+  const [controls] = useState(() => createChannel<ControlAction>());
+
+  // A fresh virtual clock per playback session; changing speed restarts
+  const scheduler = usePerKey(`${session}`, () =>
+    createScheduler(createScaledClock(speed))
+  );
+  const levelKey = `${session}:${levelIndex}`;
+  const input = usePerKey(levelKey, createInputChannel);
+  const rng = usePerKey(levelKey, () =>
+    createRng(replay.seed).fork(levelIndex)
+  );
+
+  // Stop the abandoned clock's timers when a new session starts
+  useEffect(() => () => scheduler.pause(), [scheduler]);
+
+  const advance = useCallback((index: number, diverged: boolean): void => {
+    if (diverged) {
+      setDivergedLevels((prev) => [...prev, index]);
+    }
+    setLevelIndex((prev) => (prev === index ? prev + 1 : prev));
+  }, []);
+
+  // Feed the recorded inputs back on the virtual clock
+  useEffect(() => {
+    const level = replay.levels[levelIndex];
+    if (!level) return;
+
+    // A game this build no longer has is shown as missing for its duration
+    if (!isRegisteredMicrogame(level.gameId)) {
+      const timer = scheduler.setTimeout(
+        () => advance(levelIndex, false),
+        level.duration
+      );
+      return () => scheduler.clearTimeout(timer);
+    }
+
+    const timers = level.inputs.map(([time, target]) =>
+      scheduler.setTimeout(() => input.emit(target), time)
+    );
+    timers.push(
+      level.outcome !== "completed"
+        ? scheduler.setTimeout(() => advance(levelIndex, false), level.duration)
+        : scheduler.setTimeout(
+            () => advance(levelIndex, true),
+            level.duration + DIVERGENCE_GRACE_MS
+          )
+    );
+
+    return () => timers.forEach(scheduler.clearTimeout);
+  }, [replay, levelIndex, scheduler, input, advance]);
+
+  const restart = (nextSpeed: number = speed): void => {
+    setSpeed(nextSpeed);
+    setSession((prev) => prev + 1);
+    setLevelIndex(0);
+    setIsPaused(false);
+    setDivergedLevels([]);
+  };
+
+  const togglePause = (): void => {
+    if (isPaused) {
+      scheduler.resume();
+    } else {
+      scheduler.pause();
+    }
+    setIsPaused(!isPaused);
+  };
+
+  const level = replay.levels[levelIndex];
+  const finished = !level;
+
+  const renderLevel = () => {
+    if (!isRegisteredMicrogame(level.gameId)) {
+      return (
+        <p style={{ fontSize: "1.5rem", textAlign: "center" }}>
+          ❔ "{level.gameId}" isn't available in this version
+        </p>
+      );
+    }
+    const { component: CurrentGame } = getMicrogame(level.gameId);
+
+    return (
+      <CurrentGame
+        key={`${session}-${levelIndex}`}
+        onComplete={() => advance(levelIndex, false)}
+        onHit={noop}
+        onMistake={noop}
+        level={levelIndex + 1}
+        rng={rng}
+        difficulty={level.difficulty}
+        scheduler={scheduler}
+        input={input}
+        controls={controls}
+      />
+    );
+  };
+
+  return (
+    <div
+      style={{
+        padding: "1rem",
+        height: "100vh",
+        display: "flex",
+        flexDirection: "column",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: "0.5rem",
+          marginBottom: "1rem",
+        }}
+      >
+        <strong>
+          ▶ Replay ·{" "}
+          {finished
+            ? "Finished"
+            : `Level ${levelIndex + 1}/${replay.levels.length}: ${
+                getMicrogameLabel(level.gameId).name
+              } (${level.outcome})`}
+        </strong>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          {SPEEDS.map((option) => (
+            <button
+              key={option}
+              onClick={() => restart(option)}
+              aria-pressed={option === speed}
+              style={{
+                minWidth: "44px",
+                minHeight: "44px",
+                backgroundColor:
+                  option === speed ? tokens.color.primary : undefined,
+                color: option === speed ? tokens.color.onPrimary : undefined,
+              }}
+            >
+              {option}×
+            </button>
+          ))}
+          <button
+            onClick={togglePause}
+            disabled={finished}
+            style={{ minWidth: "44px", minHeight: "44px" }}
+          >
+            {isPaused ? "Play" : "Pause"}
+          </button>
+          <button
+            onClick={() => restart()}
+            style={{ minWidth: "44px", minHeight: "44px" }}
+          >
+            Restart
+          </button>
+          <button onClick={onExit} style={{ minWidth: "44px", minHeight: "44px" }}>
+            Exit
+          </button>
+        </div>
+      </div>
+
+      {divergedLevels.length > 0 && (
+        <p style={{ color: tokens.color.warning }}>
+          ⚠ Playback diverged from the recording on level
+          {divergedLevels.length > 1 ? "s" : ""}{" "}
+          {divergedLevels.map((index) => index + 1).join(", ")}
+        </p>
+      )}
+
+      {/* Recorded inputs only: the viewer can't tap into the replay */}
+      <div
+        style={{
+          flexGrow: 1,
+          display: "flex",
+          flexDirection: "column",
+          pointerEvents: "none",
+        }}
+      >
+        {finished ? (
+          <p style={{ fontSize: "1.5rem", textAlign: "center" }}>
+            End of replay
+          </p>
+        ) : (
+          renderLevel()
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -1,27 +1,136 @@
-import React from "react";
+import React, { useState } from "react";
 import { ResultsScreenProps } from "../types/game.types";
+import { getMicrogameLabel } from "./microgames";
+import { formatDailyShare } from "../utils/dailyChallenge";
+import { formatTime } from "../utils/formatTime";
+import { computeSplits, formatDelta, getSplitDeltas } from "../utils/timing";
+import { formatAccuracy, getAccuracy } from "../utils/stats";
+import { getRoundsCleared } from "../utils/endless";
+import {
+  buildRunExport,
+  downloadFile,
+  formatResultShare,
+  formatResultsCsv,
+  getLevelStatus,
+  shareOrDownload,
+} from "../utils/export";
+import { renderResultCard } from "../utils/resultCard";
+import { tokens } from "../theme/theme";
 
 const ResultsScreen: React.FC<ResultsScreenProps> = ({
   totalTime,
+  seed,
+  mode,
+  rules,
+  dayNumber,
+  personalBest,
   levelResults,
+  resumed,
   onRestart,
 }) => {
-  const formatTime = (milliseconds: number): string => {
-    const totalSeconds = Math.floor(milliseconds / 1000);
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = totalSeconds % 60;
-    const ms = Math.floor((milliseconds % 1000) / 10);
-
-    return `${minutes.toString().padStart(2, "0")}:${seconds
-      .toString()
-      .padStart(2, "0")}.${ms.toString().padStart(2, "0")}`;
-  };
+  const [copied, setCopied] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   const completedLevels = levelResults.filter(
     (result) => result.completed
   ).length;
   const skippedLevels = levelResults.filter((result) => result.skipped).length;
-  const totalPenalties = skippedLevels * 30000; // 30 seconds each
+  const timedOutLevels = levelResults.filter(
+    (result) => result.timedOut
+  ).length;
+  const totalPenalties = levelResults.reduce(
+    (sum, result) => sum + result.penaltyTime,
+    0
+  );
+
+  // Endless runs are scored by rounds cleared rather than time
+  const endless = mode === "endless";
+  const roundsCleared = getRoundsCleared(levelResults);
+  const previousBest = personalBest ? personalBest.totalTime : personalBest;
+  const previousBestRounds = personalBest
+    ? getRoundsCleared(personalBest.levelResults)
+    : personalBest;
+  const splits = computeSplits(levelResults);
+  const splitDeltas = getSplitDeltas(
+    splits,
+    personalBest ? computeSplits(personalBest.levelResults) : []
+  );
+
+  const headline = endless
+    ? `${roundsCleared} round${roundsCleared === 1 ? "" : "s"}`
+    : formatTime(totalTime);
+  const dailyShareText =
+    mode === "daily" && dayNumber !== null
+      ? formatDailyShare(dayNumber, formatTime(totalTime), levelResults)
+      : null;
+  const shareText =
+    dailyShareText ??
+    formatResultShare(
+      endless
+        ? `Endless ${headline} ⏱ ${formatTime(totalTime)}`
+        : `⏱ ${headline}`,
+      levelResults
+    );
+  const fileName = `microgames-${mode}-${seed}`;
+
+  const handleCopyShare = (): void => {
+    navigator.clipboard
+      ?.writeText(shareText)
+      .then(() => setCopied(true))
+      .catch(() => setCopied(false));
+  };
+
+  const handleSaveImage = (): void => {
+    setExportError(null);
+    renderResultCard({
+      title:
+        dailyShareText !== null
+          ? `Microgames Daily #${dayNumber}`
+          : endless
+          ? "Microgames Endless"
+          : "Microgames Challenge",
+      headline,
+      subtitle: endless
+        ? `Survived for ${formatTime(totalTime)}`
+        : `${completedLevels}/${levelResults.length} completed · +${formatTime(
+            totalPenalties
+          )} penalties`,
+      levels: levelResults.map((result, index) => ({
+        label: `${getMicrogameLabel(result.gameId).icon} ${
+          getMicrogameLabel(result.gameId).name
+        }`,
+        status: getLevelStatus(result),
+        split: splits[index] ? formatTime(splits[index].cumulative) : null,
+      })),
+      footer: `Seed ${seed} · ${new Date().toLocaleDateString()}`,
+    })
+      .then((blob) =>
+        shareOrDownload(
+          new File([blob], `${fileName}.png`, { type: "image/png" })
+        )
+      )
+      .catch(() => setExportError("Couldn't create the image"));
+  };
+
+  const handleDownloadJson = (): void => {
+    downloadFile(
+      `${fileName}.json`,
+      JSON.stringify(
+        buildRunExport(seed, mode, rules, totalTime, levelResults),
+        null,
+        2
+      ),
+      "application/json"
+    );
+  };
+
+  const handleDownloadCsv = (): void => {
+    downloadFile(
+      `${fileName}.csv`,
+      formatResultsCsv(levelResults),
+      "text/csv"
+    );
+  };
 
   return (
     <div
@@ -32,46 +141,148 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({
         margin: "0 auto",
       }}
     >
-      <h1>Game Complete!</h1>
+      <h1>{endless ? "Game Over" : "Game Complete!"}</h1>
+
+      {mode === "daily" && dayNumber !== null && (
+        <div
+          style={{
+            display: "inline-block",
+            backgroundColor: tokens.color.accent,
+            color: tokens.color.onPrimary,
+            borderRadius: "999px",
+            padding: "0.25rem 1rem",
+            marginBottom: "1rem",
+            fontWeight: "bold",
+          }}
+        >
+          Day {dayNumber}
+        </div>
+      )}
+
+      {resumed && (
+        <p style={{ marginTop: 0, color: tokens.color.textMuted }}>
+          ↻ Resumed run: it was reloaded partway through
+        </p>
+      )}
 
       <div
         style={{
           fontSize: "3rem",
           fontWeight: "bold",
-          color: "#2196F3",
+          color: tokens.color.primary,
           marginBottom: "2rem",
           fontFamily: "monospace",
         }}
       >
-        {formatTime(totalTime)}
+        {headline}
       </div>
 
+      {endless && (
+        <p style={{ marginTop: "-1.5rem", marginBottom: "2rem" }}>
+          Survived for {formatTime(totalTime)}
+        </p>
+      )}
+
+      {endless && previousBestRounds !== undefined && (
+        <p
+          style={{
+            marginTop: "-1rem",
+            marginBottom: "2rem",
+            fontWeight: "bold",
+            color:
+              previousBestRounds === null || roundsCleared > previousBestRounds
+                ? tokens.color.success
+                : tokens.color.textMuted,
+          }}
+        >
+          {previousBestRounds === null
+            ? "🏁 First endless run!"
+            : roundsCleared > previousBestRounds
+            ? `🏆 New personal best! (+${roundsCleared - previousBestRounds})`
+            : `Personal best: ${previousBestRounds} rounds`}
+        </p>
+      )}
+
+      {!endless && previousBest !== undefined && (
+        <p
+          style={{
+            marginTop: "-1rem",
+            marginBottom: "2rem",
+            fontWeight: "bold",
+            color:
+              previousBest === null || totalTime < previousBest
+                ? tokens.color.success
+                : tokens.color.textMuted,
+          }}
+        >
+          {previousBest === null
+            ? "🏁 First run on this difficulty!"
+            : totalTime < previousBest
+            ? `🏆 New personal best! (−${formatTime(previousBest - totalTime)})`
+            : `Personal best: ${formatTime(previousBest)}`}
+        </p>
+      )}
+
       <div
         style={{
           display: "grid",
-          gridTemplateColumns: "1fr 1fr 1fr",
+          gridTemplateColumns: `repeat(${endless ? 4 : 5}, 1fr)`,
           gap: "1rem",
           marginBottom: "2rem",
           fontSize: "1.2rem",
         }}
       >
         <div>
-          <div style={{ fontWeight: "bold", color: "#4CAF50" }}>
+          <div style={{ fontWeight: "bold", color: tokens.color.success }}>
             {completedLevels}
           </div>
           <div>Completed</div>
         </div>
+        {endless ? (
+          <div>
+            <div style={{ fontWeight: "bold", color: tokens.color.timedOut }}>
+              {skippedLevels + timedOutLevels}
+            </div>
+            <div>Lives lost</div>
+          </div>
+        ) : (
+          <>
+            <div>
+              <div style={{ fontWeight: "bold", color: tokens.color.warning }}>
+                {skippedLevels}
+              </div>
+              <div>Skipped</div>
+            </div>
+            <div>
+              <div
+                style={{ fontWeight: "bold", color: tokens.color.timedOut }}
+              >
+                {timedOutLevels}
+              </div>
+              <div>Timed out</div>
+            </div>
+          </>
+        )}
         <div>
-          <div style={{ fontWeight: "bold", color: "#FF9800" }}>
-            {skippedLevels}
+          <div style={{ fontWeight: "bold", color: tokens.color.primary }}>
+            {formatAccuracy(getAccuracy(levelResults))}
           </div>
-          <div>Skipped</div>
+          <div>Accuracy</div>
         </div>
         <div>
-          <div style={{ fontWeight: "bold", color: "#F44336" }}>
+          <div style={{ fontWeight: "bold", color: tokens.color.danger }}>
             +{formatTime(totalPenalties)}
           </div>
           <div>Penalties</div>
+          <small style={{ color: tokens.color.textMuted }}>
+            {rules.allowSkip
+              ? `${Math.round(rules.skipPenaltyMs / 1000)}s per skip`
+              : "Skipping off"}
+            {rules.levelTimeLimitMs !== null &&
+              `, ${Math.round(rules.timeoutPenaltyMs / 1000)}s per time-out`}
+            {rules.mistakePenaltyMs > 0 &&
+              `, ${Math.round(rules.mistakePenaltyMs / 1000)}s per miss`}
+          </small>
         </div>
       </div>
 
@@ -82,7 +293,7 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({
             display: "grid",
             gap: "0.5rem",
             textAlign: "left",
-            maxWidth: "400px",
+            maxWidth: "520px",
             margin: "0 auto",
           }}
         >
@@ -90,39 +301,152 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({
             <div
               key={index}
               style={{
-                display: "flex",
-                justifyContent: "space-between",
+                display: "grid",
+                gridTemplateColumns: "2fr 1fr 1fr",
+                alignItems: "center",
+                gap: "0.5rem",
                 padding: "0.5rem",
-                backgroundColor: "#f5f5f5",
+                backgroundColor: tokens.color.surfaceMuted,
                 borderRadius: "4px",
                 borderLeft: `4px solid ${
                   result.completed
-                    ? "#4CAF50"
+                    ? tokens.color.success
                     : result.skipped
-                    ? "#FF9800"
-                    : "#E0E0E0"
+                    ? tokens.color.warning
+                    : result.timedOut
+                    ? tokens.color.timedOut
+                    : tokens.color.border
                 }`,
-                color: "#333",
+                color: tokens.color.surfaceText,
               }}
             >
-              <span>Level {index + 1}</span>
+              <span>
+                {getMicrogameLabel(result.gameId).icon} {endless ? "Round" : "Level"}{" "}
+                {index + 1}:{" "}
+                {getMicrogameLabel(result.gameId).name}{" "}
+                <small style={{ color: tokens.color.textMuted }}>
+                  ({result.difficulty})
+                </small>
+              </span>
               <span>
                 {result.completed
                   ? "✓ Completed"
                   : result.skipped
                   ? "⏭ Skipped"
+                  : result.timedOut
+                  ? "⌛ Timed out"
                   : "○ Not attempted"}
+                <br />
+                <small style={{ color: tokens.color.textMuted }}>
+                  {formatAccuracy(getAccuracy(result))} ·{" "}
+                  {result.mistakes} {result.mistakes === 1 ? "miss" : "misses"}
+                </small>
+              </span>
+              <span style={{ fontFamily: "monospace", textAlign: "right" }}>
+                {splits[index] ? (
+                  <>
+                    {formatTime(splits[index].cumulative)}
+                    <br />
+                    <small style={{ color: tokens.color.textMuted }}>
+                      {formatTime(splits[index].segment)}
+                    </small>{" "}
+                    {splitDeltas[index] !== null && (
+                      <small
+                        style={{
+                          color:
+                            splitDeltas[index] < 0
+                              ? tokens.color.success
+                              : tokens.color.danger,
+                          fontWeight: "bold",
+                        }}
+                      >
+                        {formatDelta(splitDeltas[index])}
+                      </small>
+                    )}
+                  </>
+                ) : (
+                  "—"
+                )}
               </span>
             </div>
           ))}
         </div>
       </div>
 
+      {dailyShareText && (
+        <div style={{ marginBottom: "1rem" }}>
+          <pre
+            style={{
+              display: "inline-block",
+              textAlign: "left",
+              backgroundColor: tokens.color.surfaceMuted,
+              color: tokens.color.surfaceText,
+              padding: "0.75rem 1rem",
+              borderRadius: "4px",
+              margin: "0 0 0.5rem 0",
+            }}
+          >
+            {dailyShareText}
+          </pre>
+        </div>
+      )}
+
+      <div
+        aria-label="Export results"
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          justifyContent: "center",
+          gap: "0.5rem",
+          marginBottom: "2rem",
+        }}
+      >
+        <button
+          onClick={handleCopyShare}
+          style={{ minWidth: "44px", minHeight: "44px" }}
+        >
+          {copied ? "Copied!" : "Copy result"}
+        </button>
+        <button
+          onClick={handleSaveImage}
+          style={{ minWidth: "44px", minHeight: "44px" }}
+        >
+          Save image
+        </button>
+        <button
+          onClick={handleDownloadJson}
+          style={{ minWidth: "44px", minHeight: "44px" }}
+        >
+          JSON
+        </button>
+        <button
+          onClick={handleDownloadCsv}
+          style={{ minWidth: "44px", minHeight: "44px" }}
+        >
+          CSV
+        </button>
+        {exportError && (
+          <p role="alert" style={{ width: "100%", color: tokens.color.danger }}>
+            {exportError}
+          </p>
+        )}
+      </div>
+
+      <p
+        style={{
+          fontSize: "0.9rem",
+          color: tokens.color.textMuted,
+          marginBottom: "1rem",
+        }}
+      >
+        Seed: <code>{seed}</code>
+      </p>
+
       <button
         onClick={onRestart}
         style={{
-          backgroundColor: "#4CAF50",
-          color: "white",
+          backgroundColor: tokens.color.success,
+          color: tokens.color.onPrimary,
           border: "none",
           borderRadius: "8px",
           padding: "1rem 2rem",
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from "react";
+import { RunHistoryProps, RunRecord } from "../types/game.types";
+import { getMicrogameLabel } from "./microgames";
+import { runStore } from "../utils/runHistory";
+import { formatTime } from "../utils/formatTime";
+import { formatAccuracy, getAccuracy } from "../utils/stats";
+import { getRunReplay } from "../utils/replay";
+import { tokens } from "../theme/theme";
+
+const RunHistory: React.FC<RunHistoryProps> = ({
+  onBack,
+  onWatchReplay,
+}) => {
+  const [runs, setRuns] = useState<RunRecord[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [clearError, setClearError] = useState<string | null>(null);
+
+  useEffect(() => {
+    runStore
+      .list()
+      .then(setRuns)
+      .catch(() => setRuns([]));
+  }, []);
+
+  const handleClear = (): void => {
+    if (!window.confirm("Delete all run history? This can't be undone.")) {
+      return;
+    }
+    setClearError(null);
+    runStore
+      .clear()
+      .then(() => setRuns([]))
+      .catch(() => setClearError("Couldn't clear the history"));
+  };
+
+  return (
+    <div
+      style={{
+        textAlign: "center",
+        padding: "2rem",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1>Run History</h1>
+
+      <div style={{ margin: "2rem auto", maxWidth: "400px", textAlign: "left" }}>
+        {runs === null ? (
+          <p>Loading…</p>
+        ) : runs.length === 0 ? (
+          <p style={{ color: tokens.color.textMuted, textAlign: "center" }}>
+            No finished runs yet.
+          </p>
+        ) : (
+          runs.map((run) => (
+            <div
+              key={run.id}
+              style={{
+                marginBottom: "0.5rem",
+                backgroundColor: tokens.color.surfaceMuted,
+                borderRadius: "4px",
+                color: tokens.color.surfaceText,
+              }}
+            >
+              <button
+                onClick={() =>
+                  setExpandedId(expandedId === run.id ? null : run.id)
+                }
+                aria-expanded={expandedId === run.id}
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  width: "100%",
+                  minHeight: "44px",
+                  backgroundColor: "transparent",
+                  color: "inherit",
+                }}
+              >
+                <span>{new Date(run.date).toLocaleString()}</span>
+                <span>
+                  {run.mode} · {run.difficultyMode}
+                  {run.resumed && (
+                    <span title="Resumed after a reload"> · ↻</span>
+                  )}
+                </span>
+                <span style={{ fontFamily: "monospace", fontWeight: "bold" }}>
+                  {formatTime(run.totalTime)}
+                </span>
+              </button>
+              {expandedId === run.id && (
+                <ul style={{ margin: 0, padding: "0 1rem 0.75rem 2rem" }}>
+                  {run.levelResults.map((result, index) => (
+                    <li key={index}>
+                      {getMicrogameLabel(result.gameId).name} ({result.difficulty}
+                      ):{" "}
+                      {result.completed
+                        ? "✓ Completed"
+                        : result.skipped
+                        ? "⏭ Skipped"
+                        : result.timedOut
+                        ? "⌛ Timed out"
+                        : "○ Not attempted"}
+                      {" · "}
+                      {formatAccuracy(getAccuracy(result))}
+                    </li>
+                  ))}
+                  <li
+                    style={{ listStyle: "none", color: tokens.color.textMuted }}
+                  >
+                    Seed: <code>{run.seed}</code>
+                  </li>
+                  {run.replay && (
+                    <li style={{ listStyle: "none" }}>
+                      <button
+                        onClick={() => {
+                          const replay = getRunReplay(run);
+                          if (replay) onWatchReplay(replay);
+                        }}
+                        style={{ minWidth: "44px", minHeight: "44px" }}
+                      >
+                        ▶ Watch replay
+                      </button>
+                    </li>
+                  )}
+                </ul>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {clearError && (
+        <p role="alert" style={{ color: tokens.color.danger }}>
+          {clearError}
+        </p>
+      )}
+
+      <div style={{ display: "flex", justifyContent: "center", gap: "1rem" }}>
+        <button onClick={onBack} style={{ minWidth: "44px", minHeight: "44px" }}>
+          Back
+        </button>
+        {runs !== null && runs.length > 0 && (
+          <button
+            onClick={handleClear}
+            style={{
+              minWidth: "44px",
+              minHeight: "44px",
+              backgroundColor: tokens.color.danger,
+              color: tokens.color.onPrimary,
+            }}
+          >
+            Clear history
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RunHistory;
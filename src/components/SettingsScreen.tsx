@@ -0,0 +1,554 @@
+import React, { useState, useEffect } from "react";
+import {
+  AccessibilitySettings,
+  AudioSettings,
+  BindableAction,
+  ColorKey,
+  ColorVisionMode,
+  GameRules,
+  InputBindings,
+  IntroClock,
+  MotionPreference,
+  SettingsScreenProps,
+  ThemePreference,
+} from "../types/game.types";
+import {
+  DEFAULT_RULES,
+  loadRules,
+  MAX_ROUNDS,
+  MIN_ROUNDS,
+  normalizeRules,
+  saveRules,
+} from "../utils/rules";
+import {
+  BINDABLE_ACTIONS,
+  DEFAULT_BINDINGS,
+  formatKey,
+  isTargetKey,
+  loadBindings,
+  normalizeKey,
+  saveBindings,
+  watchGamepadButtons,
+} from "../utils/controls";
+import {
+  COLOR_VISION_LABELS,
+  getSwatch,
+  loadAccessibility,
+  saveAccessibility,
+} from "../utils/palette";
+import SwatchSymbol from "./SwatchSymbol";
+import { sound } from "../utils/audio";
+import {
+  applyMotion,
+  applyTheme,
+  loadMotionPreference,
+  loadThemePreference,
+  MOTION_LABELS,
+  saveMotionPreference,
+  saveThemePreference,
+  THEME_LABELS,
+  tokens,
+} from "../theme/theme";
+
+const PREVIEW_COLORS: ColorKey[] = [
+  "red",
+  "blue",
+  "green",
+  "orange",
+  "purple",
+  "pink",
+  "teal",
+  "deep-orange",
+  "light-blue",
+];
+
+const ACTION_LABELS: Record<BindableAction, string> = {
+  up: "Up",
+  down: "Down",
+  left: "Left",
+  right: "Right",
+  select: "Select",
+};
+
+// Binds `value` to `action` in one list, taking it away from any other action
+const rebind = <T,>(
+  lists: Record<BindableAction, T[]>,
+  action: BindableAction,
+  value: T
+): Record<BindableAction, T[]> =>
+  Object.fromEntries(
+    BINDABLE_ACTIONS.map((candidate) => {
+      const others = lists[candidate].filter((item) => item !== value);
+      return [candidate, candidate === action ? [...others, value] : others];
+    })
+  ) as Record<BindableAction, T[]>;
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  justifyContent: "space-between",
+  alignItems: "center",
+  gap: "1rem",
+  minHeight: "44px",
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "6rem",
+  fontSize: "1rem",
+  minHeight: "36px",
+};
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
+  const [rules, setRules] = useState<GameRules>(loadRules);
+  const [bindings, setBindings] = useState<InputBindings>(loadBindings);
+  const [capturing, setCapturing] = useState<BindableAction | null>(null);
+  const [theme, setTheme] = useState<ThemePreference>(loadThemePreference);
+  const [motion, setMotion] = useState<MotionPreference>(loadMotionPreference);
+  const [audio, setAudio] = useState<AudioSettings>(sound.getSettings);
+  const [accessibility, setAccessibility] =
+    useState<AccessibilitySettings>(loadAccessibility);
+
+  // Every edit is saved immediately; normalizing keeps values playable
+  const updateRules = (changes: Partial<GameRules>): void => {
+    const next = normalizeRules({ ...rules, ...changes });
+    setRules(next);
+    saveRules(next);
+  };
+
+  const updateTheme = (next: ThemePreference): void => {
+    setTheme(next);
+    saveThemePreference(next);
+    applyTheme(next);
+  };
+
+  const updateMotion = (next: MotionPreference): void => {
+    setMotion(next);
+    saveMotionPreference(next);
+    applyMotion(next);
+  };
+
+  const updateAudio = (changes: Partial<AudioSettings>): void => {
+    setAudio(sound.updateSettings(changes));
+  };
+
+  const updateAccessibility = (
+    changes: Partial<AccessibilitySettings>
+  ): void => {
+    const next = { ...accessibility, ...changes };
+    setAccessibility(next);
+    saveAccessibility(next);
+  };
+
+  const updateBindings = (next: InputBindings): void => {
+    setBindings(next);
+    saveBindings(next);
+  };
+
+  // While capturing, the next key or gamepad button is added to the action
+  useEffect(() => {
+    if (!capturing) return;
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      e.preventDefault();
+      e.stopPropagation();
+      // Escape cancels; number keys are reserved for picking targets
+      if (e.key !== "Escape" && !isTargetKey(e.key)) {
+        updateBindings({
+          ...bindings,
+          keys: rebind(bindings.keys, capturing, normalizeKey(e.key)),
+        });
+      }
+      setCapturing(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    const stopGamepads = watchGamepadButtons((button) => {
+      updateBindings({
+        ...bindings,
+        gamepad: rebind(bindings.gamepad, capturing, button),
+      });
+      setCapturing(null);
+    });
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, true);
+      stopGamepads();
+    };
+  }, [capturing, bindings]);
+
+  const describeBindings = (action: BindableAction): string => {
+    const keys = bindings.keys[action].map(formatKey);
+    const buttons = bindings.gamepad[action].map((button) => `🎮 ${button}`);
+    return [...keys, ...buttons].join(", ") || "Unbound";
+  };
+
+  return (
+    <div
+      style={{
+        textAlign: "center",
+        padding: "2rem",
+        maxWidth: "600px",
+        margin: "0 auto",
+      }}
+    >
+      <h1>Settings</h1>
+
+      <fieldset
+        style={{
+          textAlign: "left",
+          maxWidth: "400px",
+          margin: "0 auto 2rem auto",
+          borderRadius: "8px",
+        }}
+      >
+        <legend>Rules</legend>
+
+        <label style={rowStyle}>
+          Rounds per run
+          <input
+            type="number"
+            min={MIN_ROUNDS}
+            max={MAX_ROUNDS}
+            value={rules.rounds}
+            onChange={(e) => updateRules({ rounds: Number(e.target.value) })}
+            style={inputStyle}
+          />
+        </label>
+
+        <label style={rowStyle}>
+          Allow skipping
+          <input
+            type="checkbox"
+            checked={rules.allowSkip}
+            onChange={(e) => updateRules({ allowSkip: e.target.checked })}
+          />
+        </label>
+
+        <label style={rowStyle}>
+          Skip penalty (seconds)
+          <input
+            type="number"
+            min={0}
+            value={rules.skipPenaltyMs / 1000}
+            disabled={!rules.allowSkip}
+            onChange={(e) =>
+              updateRules({ skipPenaltyMs: Number(e.target.value) * 1000 })
+            }
+            style={inputStyle}
+          />
+        </label>
+
+        <label style={rowStyle}>
+          Skip button appears after (seconds)
+          <input
+            type="number"
+            min={0}
+            value={rules.skipDelayMs / 1000}
+            disabled={!rules.allowSkip}
+            onChange={(e) =>
+              updateRules({ skipDelayMs: Number(e.target.value) * 1000 })
+            }
+            style={inputStyle}
+          />
+        </label>
+
+        <label style={rowStyle}>
+          Level time limit (seconds, 0 = none)
+          <input
+            type="number"
+            min={0}
+            value={(rules.levelTimeLimitMs ?? 0) / 1000}
+            onChange={(e) =>
+              updateRules({ levelTimeLimitMs: Number(e.target.value) * 1000 })
+            }
+            style={inputStyle}
+          />
+        </label>
+
+        <label style={rowStyle}>
+          Time-out penalty (seconds)
+          <input
+            type="number"
+            min={0}
+            value={rules.timeoutPenaltyMs / 1000}
+            disabled={rules.levelTimeLimitMs === null}
+            onChange={(e) =>
+              updateRules({ timeoutPenaltyMs: Number(e.target.value) * 1000 })
+            }
+            style={inputStyle}
+          />
+        </label>
+
+        <label style={rowStyle}>
+          Mistake penalty (seconds, 0 = none)
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={rules.mistakePenaltyMs / 1000}
+            onChange={(e) =>
+              updateRules({ mistakePenaltyMs: Number(e.target.value) * 1000 })
+            }
+            style={inputStyle}
+          />
+        </label>
+
+        <label style={rowStyle}>
+          Clock during level intros
+          <select
+            value={rules.introClock}
+            onChange={(e) =>
+              updateRules({ introClock: e.target.value as IntroClock })
+            }
+            style={{ fontSize: "1rem", minHeight: "36px" }}
+          >
+            <option value="paused">Stopped</option>
+            <option value="running">Running</option>
+          </select>
+        </label>
+
+        <p style={{ color: tokens.color.textMuted, fontSize: "0.9rem" }}>
+          Running out of time is a time-out, charged its own penalty. The daily
+          challenge always uses the default rules.
+        </p>
+
+        <button
+          onClick={() => updateRules(DEFAULT_RULES)}
+          style={{ minWidth: "44px", minHeight: "44px" }}
+        >
+          Reset to defaults
+        </button>
+      </fieldset>
+
+      <fieldset
+        style={{
+          textAlign: "left",
+          maxWidth: "400px",
+          margin: "0 auto 2rem auto",
+          borderRadius: "8px",
+        }}
+      >
+        <legend>Controls</legend>
+
+        {BINDABLE_ACTIONS.map((action) => (
+          <div key={action} style={rowStyle}>
+            <span>
+              {ACTION_LABELS[action]}
+              <br />
+              <small style={{ color: tokens.color.textMuted }}>
+                {describeBindings(action)}
+              </small>
+            </span>
+            <span style={{ display: "flex", gap: "0.5rem" }}>
+              <button
+                onClick={() => setCapturing(action)}
+                aria-label={`Add binding for ${ACTION_LABELS[action]}`}
+                style={{ minWidth: "44px", minHeight: "44px" }}
+              >
+                {capturing === action ? "Press…" : "Add"}
+              </button>
+              <button
+                onClick={() =>
+                  updateBindings({
+                    keys: { ...bindings.keys, [action]: [] },
+                    gamepad: { ...bindings.gamepad, [action]: [] },
+                  })
+                }
+                aria-label={`Clear bindings for ${ACTION_LABELS[action]}`}
+                style={{ minWidth: "44px", minHeight: "44px" }}
+              >
+                Clear
+              </button>
+            </span>
+          </div>
+        ))}
+
+        <p style={{ color: tokens.color.textMuted, fontSize: "0.9rem" }}>
+          Number keys 1–9, then 0, - and = for 10–12, always pick that
+          target. Move to highlight a target
+          and Select to pick it; in Direction Match the arrows pick the
+          matching arrow directly. Press Escape to cancel adding a key.
+        </p>
+
+        <button
+          onClick={() => updateBindings(DEFAULT_BINDINGS)}
+          style={{ minWidth: "44px", minHeight: "44px" }}
+        >
+          Reset controls
+        </button>
+      </fieldset>
+
+      <fieldset
+        style={{
+          textAlign: "left",
+          maxWidth: "400px",
+          margin: "0 auto 2rem auto",
+          borderRadius: "8px",
+        }}
+      >
+        <legend>Sound</legend>
+
+        <label style={rowStyle}>
+          Mute
+          <input
+            type="checkbox"
+            checked={audio.muted}
+            onChange={(e) => updateAudio({ muted: e.target.checked })}
+          />
+        </label>
+
+        <label style={rowStyle}>
+          Volume
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={audio.volume}
+            disabled={audio.muted}
+            onChange={(e) => updateAudio({ volume: Number(e.target.value) })}
+            onPointerUp={() => sound.play("correct")}
+            style={{ width: "8rem" }}
+          />
+        </label>
+
+        <label style={rowStyle}>
+          Sequence Memory plays tones only
+          <input
+            type="checkbox"
+            checked={audio.audioOnlySequence}
+            onChange={(e) =>
+              updateAudio({ audioOnlySequence: e.target.checked })
+            }
+          />
+        </label>
+
+        <p style={{ color: tokens.color.textMuted, fontSize: "0.9rem" }}>
+          In tones-only mode the sequence isn't shown, only played. It falls
+          back to flashing buttons while sound is muted.
+        </p>
+
+        <button
+          onClick={() => sound.play("fanfare")}
+          disabled={audio.muted || audio.volume === 0}
+          style={{ minWidth: "44px", minHeight: "44px" }}
+        >
+          Test sound
+        </button>
+      </fieldset>
+
+      <fieldset
+        style={{
+          textAlign: "left",
+          maxWidth: "400px",
+          margin: "0 auto 2rem auto",
+          borderRadius: "8px",
+        }}
+      >
+        <legend>Accessibility</legend>
+
+        <label style={rowStyle}>
+          Theme
+          <select
+            value={theme}
+            onChange={(e) => updateTheme(e.target.value as ThemePreference)}
+            style={{ fontSize: "1rem", minHeight: "36px" }}
+          >
+            {(Object.keys(THEME_LABELS) as ThemePreference[]).map((option) => (
+              <option key={option} value={option}>
+                {THEME_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label style={rowStyle}>
+          Motion
+          <select
+            value={motion}
+            onChange={(e) => updateMotion(e.target.value as MotionPreference)}
+            style={{ fontSize: "1rem", minHeight: "36px" }}
+          >
+            {(Object.keys(MOTION_LABELS) as MotionPreference[]).map(
+              (option) => (
+                <option key={option} value={option}>
+                  {MOTION_LABELS[option]}
+                </option>
+              )
+            )}
+          </select>
+        </label>
+
+        <label style={rowStyle}>
+          Color palette
+          <select
+            value={accessibility.colorVision}
+            onChange={(e) =>
+              updateAccessibility({
+                colorVision: e.target.value as ColorVisionMode,
+              })
+            }
+            style={{ fontSize: "1rem", minHeight: "36px" }}
+          >
+            {(Object.keys(COLOR_VISION_LABELS) as ColorVisionMode[]).map(
+              (mode) => (
+                <option key={mode} value={mode}>
+                  {COLOR_VISION_LABELS[mode]}
+                </option>
+              )
+            )}
+          </select>
+        </label>
+
+        <label style={rowStyle}>
+          Show symbols on colors
+          <input
+            type="checkbox"
+            checked={accessibility.symbols}
+            onChange={(e) => updateAccessibility({ symbols: e.target.checked })}
+          />
+        </label>
+
+        <div
+          aria-label="Palette preview"
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            gap: "0.5rem",
+            margin: "0.5rem 0",
+          }}
+        >
+          {PREVIEW_COLORS.map((key) => {
+            const swatch = getSwatch(accessibility, key);
+            return (
+              <div
+                key={key}
+                title={swatch.name}
+                style={{
+                  position: "relative",
+                  width: "36px",
+                  height: "36px",
+                  borderRadius: "50%",
+                  border: `2px solid ${tokens.color.outline}`,
+                  backgroundColor: swatch.hex,
+                }}
+              >
+                <SwatchSymbol swatch={swatch} size="1.1rem" />
+              </div>
+            );
+          })}
+        </div>
+
+        <p style={{ color: tokens.color.textMuted, fontSize: "0.9rem" }}>
+          Symbols give every color its own mark, so color games can be played
+          without telling hues apart. Changes apply from the next level.
+        </p>
+      </fieldset>
+
+      <button onClick={onBack} style={{ minWidth: "44px", minHeight: "44px" }}>
+        Back
+      </button>
+    </div>
+  );
+};
+
+export default SettingsScreen;
@@ -1,12 +1,13 @@
 import React from 'react';
 import { SkipButtonProps } from '../types/game.types';
+import { tokens } from '../theme/theme';
 
-const SkipButton: React.FC<SkipButtonProps> = ({ onSkip, visible }) => {
+const SkipButton: React.FC<SkipButtonProps> = ({ onSkip, visible, penaltyMs }) => {
   if (!visible) return null;
 
   return (
     <div style={{ 
-      position: 'fixed', 
+      position: 'absolute', 
       bottom: '2rem', 
       right: '2rem',
       zIndex: 1000
@@ -14,8 +15,8 @@ const SkipButton: React.FC<SkipButtonProps> = ({ onSkip, visible }) => {
       <button
         onClick={onSkip}
         style={{
-          backgroundColor: '#FF6B6B',
-          color: 'white',
+          backgroundColor: tokens.color.skip,
+          color: tokens.color.onPrimary,
           border: 'none',
           borderRadius: '8px',
           padding: '1rem 1.5rem',
@@ -24,17 +25,17 @@ const SkipButton: React.FC<SkipButtonProps> = ({ onSkip, visible }) => {
           cursor: 'pointer',
           minWidth: '44px',
           minHeight: '44px',
-          boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+          boxShadow: tokens.shadow.raised,
           transition: 'background-color 0.2s',
         }}
         onMouseOver={(e) => {
-          e.currentTarget.style.backgroundColor = '#FF5252';
+          e.currentTarget.style.backgroundColor = tokens.color.skipHover;
         }}
         onMouseOut={(e) => {
-          e.currentTarget.style.backgroundColor = '#FF6B6B';
+          e.currentTarget.style.backgroundColor = tokens.color.skip;
         }}
       >
-        Skip (+30s)
+        {penaltyMs > 0 ? `Skip (+${Math.round(penaltyMs / 1000)}s)` : 'Skip'}
       </button>
     </div>
   );
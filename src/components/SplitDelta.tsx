@@ -0,0 +1,24 @@
+import React from 'react';
+import { SplitDeltaProps } from '../types/game.types';
+import { formatDelta } from '../utils/timing';
+import { tokens } from '../theme/theme';
+
+const SplitDelta: React.FC<SplitDeltaProps> = ({ delta }) => {
+  if (delta === null) return null;
+
+  return (
+    <div
+      aria-label={`${Math.abs(delta / 1000).toFixed(2)} seconds ${delta < 0 ? 'ahead of' : 'behind'} personal best`}
+      style={{
+        fontSize: '1.1rem',
+        fontWeight: 'bold',
+        fontFamily: 'monospace',
+        color: delta < 0 ? tokens.color.success : tokens.color.danger,
+      }}
+    >
+      {formatDelta(delta)}
+    </div>
+  );
+};
+
+export default SplitDelta;
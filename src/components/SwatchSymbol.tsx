@@ -0,0 +1,31 @@
+import React from 'react';
+import { SwatchSymbolProps } from '../types/game.types';
+import { tokens } from '../theme/theme';
+
+// Centered over a colored swatch; the swatch's own label names the color,
+// so the symbol is decorative for screen readers
+const SwatchSymbol: React.FC<SwatchSymbolProps> = ({ swatch, size = '2.5rem' }) => {
+  if (swatch.symbol === null) return null;
+
+  return (
+    <span
+      aria-hidden="true"
+      style={{
+        position: 'absolute',
+        inset: 0,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        fontSize: size,
+        lineHeight: 1,
+        color: 'white',
+        textShadow: tokens.shadow.symbol,
+        pointerEvents: 'none',
+      }}
+    >
+      {swatch.symbol}
+    </span>
+  );
+};
+
+export default SwatchSymbol;
@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from "react";
+import { TelemetryEvent } from "../types/game.types";
+import { telemetry } from "../utils/telemetry";
+import { tokens } from "../theme/theme";
+
+const SHOWN_EVENTS = 50;
+
+const formatClock = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour12: false });
+
+// Developer overlay (?debug) listing the latest events and sink status
+const TelemetryPanel: React.FC = () => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [events, setEvents] = useState<TelemetryEvent[]>(telemetry.recent);
+  const [flushing, setFlushing] = useState<boolean>(false);
+
+  useEffect(
+    () => telemetry.subscribe(() => setEvents(telemetry.recent())),
+    []
+  );
+
+  const handleFlush = (): void => {
+    setFlushing(true);
+    telemetry.flush().finally(() => setFlushing(false));
+  };
+
+  const handleClear = (): void => {
+    telemetry.clearRecent();
+    setEvents([]);
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        left: "1rem",
+        bottom: "1rem",
+        zIndex: 3000,
+        maxWidth: "min(480px, calc(100vw - 2rem))",
+        backgroundColor: tokens.color.surface,
+        color: tokens.color.surfaceText,
+        border: `1px solid ${tokens.color.border}`,
+        borderRadius: "8px",
+        boxShadow: tokens.shadow.raised,
+        fontSize: "0.8rem",
+        textAlign: "left",
+      }}
+    >
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        style={{ minWidth: "44px", minHeight: "44px", width: "100%" }}
+      >
+        📊 Telemetry ({events.length})
+      </button>
+
+      {open && (
+        <div style={{ padding: "0.5rem" }}>
+          <ul style={{ margin: "0 0 0.5rem", paddingLeft: "1rem" }}>
+            {telemetry.getSinks().map((sink) => (
+              <li key={sink.name}>
+                <strong>{sink.name}</strong>
+                {sink.describe && `: ${sink.describe()}`}
+              </li>
+            ))}
+          </ul>
+
+          <ol
+            reversed
+            style={{
+              maxHeight: "40vh",
+              overflowY: "auto",
+              margin: 0,
+              paddingLeft: "2rem",
+              fontFamily: "monospace",
+            }}
+          >
+            {events
+              .slice(-SHOWN_EVENTS)
+              .reverse()
+              .map((event) => (
+                <li key={`${event.sessionId}-${event.id}`}>
+                  <span style={{ color: tokens.color.textMuted }}>
+                    {formatClock(event.timestamp)}
+                  </span>{" "}
+                  <strong>{event.name}</strong> {JSON.stringify(event.data)}
+                </li>
+              ))}
+          </ol>
+
+          <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.5rem" }}>
+            <button
+              onClick={handleFlush}
+              disabled={flushing}
+              style={{ minWidth: "44px", minHeight: "44px" }}
+            >
+              {flushing ? "Flushing…" : "Flush sinks"}
+            </button>
+            <button
+              onClick={handleClear}
+              style={{ minWidth: "44px", minHeight: "44px" }}
+            >
+              Clear list
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TelemetryPanel;
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { TimerProps } from '../types/game.types';
+import { formatTime } from '../utils/formatTime';
+import { tokens } from '../theme/theme';
 
-const Timer: React.FC<TimerProps> = ({ startTime, additionalTime }) => {
+const Timer: React.FC<TimerProps> = ({ startTime, additionalTime, now }) => {
   const [displayTime, setDisplayTime] = useState<number>(0);
 
   useEffect(() => {
@@ -11,21 +13,12 @@ const Timer: React.FC<TimerProps> = ({ startTime, additionalTime }) => {
     }
 
     const interval = setInterval(() => {
-      const elapsed = Date.now() - startTime;
+      const elapsed = now() - startTime;
       setDisplayTime(elapsed + additionalTime);
     }, 100);
 
     return () => clearInterval(interval);
-  }, [startTime, additionalTime]);
-
-  const formatTime = (milliseconds: number): string => {
-    const totalSeconds = Math.floor(milliseconds / 1000);
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = totalSeconds % 60;
-    const ms = Math.floor((milliseconds % 1000) / 10);
-    
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${ms.toString().padStart(2, '0')}`;
-  };
+  }, [startTime, additionalTime, now]);
 
   return (
     <div style={{ 
@@ -33,9 +26,9 @@ const Timer: React.FC<TimerProps> = ({ startTime, additionalTime }) => {
       fontWeight: 'bold',
       fontFamily: 'monospace',
       padding: '0.5rem',
-      backgroundColor: '#f0f0f0',
+      backgroundColor: tokens.color.surfaceMuted,
       borderRadius: '4px',
-      color: '#333'
+      color: tokens.color.surfaceText
     }}>
       {formatTime(displayTime)}
     </div>
@@ -1,86 +1,74 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { MicrogameProps } from "../../types/game.types";
+import { useMicrogameInput } from "../../hooks/useMicrogameInput";
+import { useMicrogameEngine } from "../../hooks/useMicrogameEngine";
+import {
+  getFocusStyle,
+  useTargetNavigation,
+} from "../../hooks/useTargetNavigation";
+import { usePalette } from "../../hooks/usePalette";
+import { COLOR_MATCH_DIFFICULTY, colorMatch } from "../../engines/colorMatch";
+import SwatchSymbol from "../SwatchSymbol";
+import { tokens } from "../../theme/theme";
 
-interface ColorOption {
-  color: string;
-  isCorrect: boolean;
-}
+const ColorMatch: React.FC<MicrogameProps> = ({
+  onComplete,
+  onHit,
+  onMistake,
+  rng,
+  difficulty,
+  scheduler,
+  input,
+  controls,
+}) => {
+  const { optionCount } = COLOR_MATCH_DIFFICULTY[difficulty];
 
-interface ColorMatchState {
-  targetColor: string;
-  options: ColorOption[];
-  selectedIndex: number | null;
-}
-
-const COLORS = [
-  '#EF4444', // Red
-  '#3B82F6', // Blue
-  '#10B981', // Green
-  '#F59E0B', // Orange
-  '#8B5CF6', // Purple
-  '#EC4899', // Pink
-  '#14B8A6', // Teal
-  '#F97316', // Deep Orange
-];
-
-const ColorMatch: React.FC<MicrogameProps> = ({ onComplete }) => {
-  const [gameState, setGameState] = useState<ColorMatchState>({
-    targetColor: '',
-    options: [],
-    selectedIndex: null,
-  });
+  const [gameState, apply] = useMicrogameEngine(colorMatch, rng.seed, difficulty);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const palette = usePalette();
   const [feedback, setFeedback] = useState<'none' | 'wrong' | 'correct'>('none');
 
-  const generateGame = (): ColorMatchState => {
-    const shuffled = [...COLORS].sort(() => Math.random() - 0.5);
-    const targetColor = shuffled[0];
-    const incorrectColors = shuffled.slice(1, 4);
-    
-    const options = [
-      { color: targetColor, isCorrect: true },
-      { color: incorrectColors[0], isCorrect: false },
-      { color: incorrectColors[1], isCorrect: false },
-      { color: incorrectColors[2], isCorrect: false },
-    ].sort(() => Math.random() - 0.5);
-    
-    return {
-      targetColor,
-      options,
-      selectedIndex: null,
-    };
-  };
-
-  useEffect(() => {
-    setGameState(generateGame());
-  }, []);
-
   const handleOptionTap = (index: number): void => {
     if (feedback !== 'none') return; // Prevent multiple taps during feedback
-    
-    const option = gameState.options[index];
-    setGameState(prev => ({ ...prev, selectedIndex: index }));
-    
-    if (option.isCorrect) {
+
+    const { outcome } = apply(index);
+    if (outcome === 'ignored') return;
+    setSelectedIndex(index);
+
+    if (outcome === 'hit') {
+      onHit();
       setFeedback('correct');
-      setTimeout(() => {
+      scheduler.setTimeout(() => {
         onComplete();
       }, 300);
     } else {
+      onMistake();
       setFeedback('wrong');
-      setTimeout(() => {
+      scheduler.setTimeout(() => {
         setFeedback('none');
-        setGameState(prev => ({ ...prev, selectedIndex: null }));
+        setSelectedIndex(null);
       }, 500);
     }
   };
 
+  const select = useMicrogameInput(input, handleOptionTap);
+  const focused = useTargetNavigation(controls, {
+    count: gameState.options.length,
+    columns: optionCount > 4 ? 3 : 2,
+    select,
+  });
+
   const getOptionClassName = (index: number): string => {
-    if (gameState.selectedIndex === index) {
-      return feedback === 'wrong' ? 'color-option wrong' : 'color-option correct';
+    if (selectedIndex === index) {
+      return feedback === 'wrong'
+        ? 'color-option feedback-wrong'
+        : 'color-option feedback-correct';
     }
     return 'color-option';
   };
 
+  const target = palette(gameState.targetColor);
+
   return (
     <div 
       role="main" 
@@ -101,16 +89,19 @@ const ColorMatch: React.FC<MicrogameProps> = ({ onComplete }) => {
         <div 
           className="target-color"
           style={{ 
-            backgroundColor: gameState.targetColor,
+            position: 'relative',
+            backgroundColor: target.hex,
             width: '140px',
             height: '140px',
             borderRadius: '50%',
             margin: '0 auto',
-            border: '4px solid #333',
-            boxShadow: '0 4px 8px rgba(0,0,0,0.2)'
+            border: `4px solid ${tokens.color.outline}`,
+            boxShadow: tokens.shadow.raised
           }}
-          aria-label={`Target color: ${gameState.targetColor}`}
-        />
+          aria-label={`Target color: ${target.name}`}
+        >
+          <SwatchSymbol swatch={target} size="3rem" />
+        </div>
       </div>
       
       <div 
@@ -119,9 +110,9 @@ const ColorMatch: React.FC<MicrogameProps> = ({ onComplete }) => {
         aria-label="Color options"
         style={{
           display: 'grid',
-          gridTemplateColumns: '1fr 1fr',
+          gridTemplateColumns: `repeat(${optionCount > 4 ? 3 : 2}, 1fr)`,
           gap: '30px',
-          maxWidth: '400px',
+          maxWidth: optionCount > 4 ? '500px' : '400px',
           margin: '0 auto'
         }}
       >
@@ -130,43 +121,26 @@ const ColorMatch: React.FC<MicrogameProps> = ({ onComplete }) => {
             key={index}
             className={getOptionClassName(index)}
             style={{ 
-              backgroundColor: option.color,
+              ...getFocusStyle(focused === index),
+              position: 'relative',
+              backgroundColor: palette(option.color).hex,
               width: '110px',
               height: '110px',
               borderRadius: '50%',
-              border: '3px solid #333',
+              border: `3px solid ${tokens.color.outline}`,
               cursor: feedback === 'none' ? 'pointer' : 'default',
-              boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+              boxShadow: tokens.shadow.raised,
               transition: 'transform 0.1s ease',
-              transform: gameState.selectedIndex === index && feedback === 'correct' ? 'scale(1.1)' : 'scale(1)'
+              transform: selectedIndex === index && feedback === 'correct' ? 'scale(1.1)' : 'scale(1)'
             }}
-            onClick={() => handleOptionTap(index)}
-            aria-label={`Option ${index + 1}: ${option.color}`}
+            onClick={() => select(index)}
+            aria-label={`Option ${index + 1}: ${palette(option.color).name}`}
             disabled={feedback !== 'none'}
-          />
+          >
+            <SwatchSymbol swatch={palette(option.color)} />
+          </button>
         ))}
       </div>
-
-      <style>{`
-        .color-option.wrong {
-          animation: shake 0.3s ease-in-out;
-        }
-
-        @keyframes shake {
-          0%, 100% { transform: translateX(0); }
-          25% { transform: translateX(-10px); }
-          75% { transform: translateX(10px); }
-        }
-
-        .color-option.correct {
-          animation: success 0.3s ease-in-out;
-        }
-
-        @keyframes success {
-          0%, 100% { transform: scale(1.1); }
-          50% { transform: scale(1.2); }
-        }
-      `}</style>
     </div>
   );
 };
@@ -1,96 +1,89 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { MicrogameProps } from "../../types/game.types";
-
-type Direction = 'up' | 'down' | 'left' | 'right';
-
-interface ArrowConfig {
-  id: number;
-  direction: Direction;
-  rotation: number;
-  isTarget: boolean;
-}
-
-interface DirectionMatchState {
-  targetDirection: Direction;
-  arrows: ArrowConfig[];
-  feedback: number | null;
-}
+import { useMicrogameInput } from "../../hooks/useMicrogameInput";
+import { useMicrogameEngine } from "../../hooks/useMicrogameEngine";
+import {
+  getFocusStyle,
+  useTargetNavigation,
+} from "../../hooks/useTargetNavigation";
+import {
+  DIRECTION_MATCH_DIFFICULTY,
+  Direction,
+  directionMatch,
+} from "../../engines/directionMatch";
+import { tokens } from "../../theme/theme";
 
 const DIRECTIONS: Record<Direction, { label: string; rotation: number }> = {
   up: { label: 'UP', rotation: 0 },
   right: { label: 'RIGHT', rotation: 90 },
   down: { label: 'DOWN', rotation: 180 },
   left: { label: 'LEFT', rotation: 270 },
+  'up-right': { label: 'UP-RIGHT', rotation: 45 },
+  'down-right': { label: 'DOWN-RIGHT', rotation: 135 },
+  'down-left': { label: 'DOWN-LEFT', rotation: 225 },
+  'up-left': { label: 'UP-LEFT', rotation: 315 },
 };
 
-const ALL_DIRECTIONS: Direction[] = ['up', 'down', 'left', 'right'];
+const DirectionMatch: React.FC<MicrogameProps> = ({
+  onComplete,
+  onHit,
+  onMistake,
+  rng,
+  difficulty,
+  scheduler,
+  input,
+  controls,
+}) => {
+  const { arrowCount } = DIRECTION_MATCH_DIFFICULTY[difficulty];
+
+  const [gameState, apply] = useMicrogameEngine(
+    directionMatch,
+    rng.seed,
+    difficulty
+  );
+  const [feedback, setFeedback] = useState<number | null>(null);
 
-const DirectionMatch: React.FC<MicrogameProps> = ({ onComplete }) => {
-  const [gameState, setGameState] = useState<DirectionMatchState>({
-    targetDirection: 'up',
-    arrows: [],
-    feedback: null,
-  });
+  const handleArrowTap = (index: number): void => {
+    if (feedback !== null) return; // Prevent multiple taps during feedback
 
-  const generateGame = (): DirectionMatchState => {
-    // Select random target direction
-    const targetDirection = ALL_DIRECTIONS[
-      Math.floor(Math.random() * ALL_DIRECTIONS.length)
-    ];
-    
-    // Create shuffled array of all 4 directions
-    const shuffledDirections = [...ALL_DIRECTIONS].sort(() => Math.random() - 0.5);
-    
-    // Create arrow configs
-    const arrows: ArrowConfig[] = shuffledDirections.map((direction, index) => ({
-      id: index,
-      direction,
-      rotation: DIRECTIONS[direction].rotation,
-      isTarget: direction === targetDirection,
-    }));
-    
-    return {
-      targetDirection,
-      arrows,
-      feedback: null,
-    };
-  };
+    const { outcome } = apply(index);
+    if (outcome === 'ignored') return;
+    setFeedback(index);
 
-  const handleArrowTap = (index: number): void => {
-    if (gameState.feedback !== null) return; // Prevent multiple taps during feedback
-    
-    const arrow = gameState.arrows[index];
-    
-    if (arrow.isTarget) {
-      // Correct!
-      setGameState(prev => ({ ...prev, feedback: index }));
-      
-      setTimeout(() => {
+    if (outcome === 'hit') {
+      onHit();
+      scheduler.setTimeout(() => {
         onComplete();
       }, 500);
     } else {
-      // Wrong!
-      setGameState(prev => ({ ...prev, feedback: index }));
-      
-      setTimeout(() => {
-        setGameState(prev => ({ ...prev, feedback: null }));
-      }, 500);
+      onMistake();
+      scheduler.setTimeout(() => setFeedback(null), 500);
     }
   };
 
+  const select = useMicrogameInput(input, handleArrowTap);
+  // Arrow keys pick the matching arrow; diagonals use number keys
+  const directTargets = Object.fromEntries(
+    gameState.arrows
+      .map((direction, index) => [direction, index] as const)
+      .filter(([direction]) => !direction.includes('-'))
+  );
+  const focused = useTargetNavigation(controls, {
+    count: gameState.arrows.length,
+    columns: arrowCount > 4 ? 4 : 2,
+    select,
+    directTargets,
+  });
+
   const getArrowClassName = (index: number): string => {
-    if (gameState.feedback === index) {
-      const arrow = gameState.arrows[index];
-      return arrow.isTarget ? 'direction-arrow correct' : 'direction-arrow wrong';
+    if (feedback === index) {
+      return gameState.arrows[index] === gameState.targetDirection
+        ? 'direction-arrow game-tile feedback-fill feedback-correct'
+        : 'direction-arrow game-tile feedback-fill feedback-wrong';
     }
-    return 'direction-arrow';
+    return 'direction-arrow game-tile';
   };
 
-  // Initialize game on mount
-  useEffect(() => {
-    setGameState(generateGame());
-  }, []);
-
   return (
     <div 
       role="main" 
@@ -112,8 +105,8 @@ const DirectionMatch: React.FC<MicrogameProps> = ({ onComplete }) => {
         <p style={{ 
           fontSize: '2.5rem', 
           fontWeight: 'bold',
-          color: '#2196F3',
-          textShadow: '1px 1px 2px rgba(0,0,0,0.3)',
+          color: tokens.color.primary,
+          textShadow: tokens.shadow.text,
           margin: 0
         }}>
           {DIRECTIONS[gameState.targetDirection].label}
@@ -123,37 +116,38 @@ const DirectionMatch: React.FC<MicrogameProps> = ({ onComplete }) => {
       {/* Arrow Grid */}
       <div style={{
         display: 'grid',
-        gridTemplateColumns: '1fr 1fr',
+        gridTemplateColumns: `repeat(${arrowCount > 4 ? 4 : 2}, 1fr)`,
         gap: '25px',
-        maxWidth: '320px',
+        maxWidth: arrowCount > 4 ? '640px' : '320px',
         margin: '0 auto'
       }}>
-        {gameState.arrows.map((arrow, index) => (
+        {gameState.arrows.map((direction, index) => (
           <button
-            key={arrow.id}
+            key={index}
             className={getArrowClassName(index)}
             style={{
+              ...getFocusStyle(focused === index),
               width: '130px',
               height: '130px',
-              backgroundColor: '#ffffff',
-              border: '3px solid #333',
+              backgroundColor: tokens.color.surface,
+              border: `3px solid ${tokens.color.outline}`,
               borderRadius: '12px',
-              cursor: gameState.feedback === null ? 'pointer' : 'default',
+              cursor: feedback === null ? 'pointer' : 'default',
               display: 'flex',
               alignItems: 'center',
               justifyContent: 'center',
               fontSize: '3rem',
-              color: '#333',
+              color: tokens.color.surfaceText,
               transition: 'all 0.2s ease',
-              boxShadow: '0 4px 8px rgba(0,0,0,0.2)'
+              boxShadow: tokens.shadow.raised
             }}
-            onClick={() => handleArrowTap(index)}
-            disabled={gameState.feedback !== null}
-            aria-label={`Arrow pointing ${arrow.direction}`}
+            onClick={() => select(index)}
+            disabled={feedback !== null}
+            aria-label={`Arrow pointing ${direction}`}
           >
             <span 
               style={{
-                transform: `rotate(${arrow.rotation}deg)`,
+                transform: `rotate(${DIRECTIONS[direction].rotation}deg)`,
                 transition: 'transform 0.2s ease'
               }}
             >
@@ -162,38 +156,6 @@ const DirectionMatch: React.FC<MicrogameProps> = ({ onComplete }) => {
           </button>
         ))}
       </div>
-
-      <style>{`
-        .direction-arrow.correct {
-          animation: correctScale 0.5s ease-in-out;
-          background-color: #4CAF50 !important;
-          color: white;
-        }
-
-        @keyframes correctScale {
-          0%, 100% { transform: scale(1); }
-          50% { transform: scale(1.1); }
-        }
-
-        .direction-arrow.wrong {
-          animation: wrongShake 0.5s ease-in-out;
-          background-color: #F44336 !important;
-          color: white;
-        }
-
-        @keyframes wrongShake {
-          0%, 100% { transform: translateX(0); }
-          20% { transform: translateX(-10px); }
-          40% { transform: translateX(10px); }
-          60% { transform: translateX(-10px); }
-          80% { transform: translateX(10px); }
-        }
-
-        .direction-arrow:hover:not(:disabled) {
-          background-color: #f0f0f0 !important;
-          transform: scale(1.05);
-        }
-      `}</style>
     </div>
   );
 };
@@ -1,5 +1,15 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { MicrogameProps } from "../../types/game.types";
+import { useMicrogameInput } from "../../hooks/useMicrogameInput";
+import { useMicrogameEngine } from "../../hooks/useMicrogameEngine";
+import {
+  getFocusStyle,
+  useTargetNavigation,
+} from "../../hooks/useTargetNavigation";
+import { usePalette } from "../../hooks/usePalette";
+import { GridItem, oddOneOut } from "../../engines/oddOneOut";
+import SwatchSymbol from "../SwatchSymbol";
+import { tokens } from "../../theme/theme";
 
 interface ShapeProps {
   color: string;
@@ -7,40 +17,6 @@ interface ShapeProps {
   rotation?: number;
 }
 
-interface GridItem {
-  id: number;
-  shape: string;
-  color: string;
-  size: number;
-  rotation: number;
-  isOdd: boolean;
-}
-
-interface OddOneOutState {
-  items: GridItem[];
-  oddItemIndex: number;
-  feedback: number | null;
-}
-
-const SHAPE_SETS = [
-  {
-    normal: { shape: 'circle', color: '#3B82F6', size: 60, rotation: 0 },
-    odd: { shape: 'circle', color: '#EF4444', size: 60, rotation: 0 }  // Different color
-  },
-  {
-    normal: { shape: 'square', color: '#10B981', size: 60, rotation: 0 },
-    odd: { shape: 'circle', color: '#10B981', size: 60, rotation: 0 }  // Different shape
-  },
-  {
-    normal: { shape: 'triangle', color: '#F59E0B', size: 60, rotation: 0 },
-    odd: { shape: 'triangle', color: '#F59E0B', size: 60, rotation: 180 }  // Rotated
-  },
-  {
-    normal: { shape: 'star', color: '#8B5CF6', size: 60, rotation: 0 },
-    odd: { shape: 'star', color: '#8B5CF6', size: 80, rotation: 0 }  // Different size
-  },
-];
-
 // Shape Components
 const Circle: React.FC<ShapeProps> = ({ color, size = 60 }) => (
   <div
@@ -119,63 +95,53 @@ const Star: React.FC<ShapeProps> = ({ color, size = 60 }) => (
   </div>
 );
 
-const OddOneOut: React.FC<MicrogameProps> = ({ onComplete }) => {
-  const [gameState, setGameState] = useState<OddOneOutState>({
-    items: [],
-    oddItemIndex: 0,
-    feedback: null,
-  });
-
-  const generateGame = (): OddOneOutState => {
-    // Select random variation set
-    const set = SHAPE_SETS[Math.floor(Math.random() * SHAPE_SETS.length)];
-    
-    // Select random position for odd item (0-7)
-    const oddItemIndex = Math.floor(Math.random() * 8);
-    
-    // Create 8 items
-    const items: GridItem[] = Array.from({ length: 8 }, (_, index) => {
-      const config = index === oddItemIndex ? set.odd : set.normal;
-      return {
-        id: index,
-        shape: config.shape,
-        color: config.color,
-        size: config.size,
-        rotation: config.rotation,
-        isOdd: index === oddItemIndex,
-      };
-    });
-    
-    return {
-      items,
-      oddItemIndex,
-      feedback: null,
-    };
-  };
+const OddOneOut: React.FC<MicrogameProps> = ({
+  onComplete,
+  onHit,
+  onMistake,
+  rng,
+  difficulty,
+  scheduler,
+  input,
+  controls,
+}) => {
+  const palette = usePalette();
+  const [gameState, apply] = useMicrogameEngine(
+    oddOneOut,
+    rng.seed,
+    difficulty
+  );
+  const [feedback, setFeedback] = useState<number | null>(null);
 
   const handleItemTap = (index: number): void => {
-    if (gameState.feedback !== null) return; // Prevent multiple taps during feedback
-    
-    const item = gameState.items[index];
-    
-    setGameState(prev => ({ ...prev, feedback: index }));
-    
-    if (item.isOdd) {
-      // Correct!
-      setTimeout(() => {
+    if (feedback !== null) return; // Prevent multiple taps during feedback
+
+    const { outcome } = apply(index);
+    if (outcome === 'ignored') return;
+    setFeedback(index);
+
+    if (outcome === 'hit') {
+      onHit();
+      scheduler.setTimeout(() => {
         onComplete();
       }, 500);
     } else {
       // Wrong! Clear feedback after animation
-      setTimeout(() => {
-        setGameState(prev => ({ ...prev, feedback: null }));
-      }, 500);
+      onMistake();
+      scheduler.setTimeout(() => setFeedback(null), 500);
     }
   };
 
+  const select = useMicrogameInput(input, handleItemTap);
+  const focused = useTargetNavigation(controls, {
+    count: gameState.items.length,
+    columns: 4,
+    select,
+  });
+
   const renderShape = (item: GridItem): React.ReactNode => {
     const props = {
-      color: item.color,
+      color: palette(item.color).hex,
       size: item.size,
       rotation: item.rotation
     };
@@ -195,18 +161,15 @@ const OddOneOut: React.FC<MicrogameProps> = ({ onComplete }) => {
   };
 
   const getItemClassName = (index: number): string => {
-    if (gameState.feedback === index) {
+    if (feedback === index) {
       const item = gameState.items[index];
-      return item.isOdd ? 'grid-item correct' : 'grid-item wrong';
+      return item.isOdd
+        ? 'grid-item game-tile feedback-fill feedback-correct'
+        : 'grid-item game-tile feedback-fill feedback-wrong';
     }
-    return 'grid-item';
+    return 'grid-item game-tile';
   };
 
-  // Initialize game on mount
-  useEffect(() => {
-    setGameState(generateGame());
-  }, []);
-
   return (
     <div 
       role="main" 
@@ -225,7 +188,7 @@ const OddOneOut: React.FC<MicrogameProps> = ({ onComplete }) => {
         <p style={{ 
           fontSize: '2rem', 
           fontWeight: 'bold',
-          color: '#333',
+          color: tokens.color.surfaceText,
           margin: 0
         }}>
           Find the odd one out
@@ -242,62 +205,32 @@ const OddOneOut: React.FC<MicrogameProps> = ({ onComplete }) => {
       }}>
         {gameState.items.map((item, index) => (
           <button
-            key={item.id}
+            key={index}
             className={getItemClassName(index)}
             style={{
+              ...getFocusStyle(focused === index),
+              position: 'relative',
               width: '80px',
               height: '80px',
-              backgroundColor: '#ffffff',
-              border: '2px solid #ddd',
+              backgroundColor: tokens.color.surface,
+              border: `2px solid ${tokens.color.border}`,
               borderRadius: '8px',
-              cursor: gameState.feedback === null ? 'pointer' : 'default',
+              cursor: feedback === null ? 'pointer' : 'default',
               display: 'flex',
               alignItems: 'center',
               justifyContent: 'center',
               transition: 'all 0.2s ease',
-              boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+              boxShadow: tokens.shadow.subtle
             }}
-            onClick={() => handleItemTap(index)}
-            disabled={gameState.feedback !== null}
-            aria-label={`Item ${index + 1}: ${item.shape} ${item.isOdd ? '(odd one)' : ''}`}
+            onClick={() => select(index)}
+            disabled={feedback !== null}
+            aria-label={`Item ${index + 1}: ${palette(item.color).name} ${item.shape} ${item.isOdd ? '(odd one)' : ''}`}
           >
             {renderShape(item)}
+            <SwatchSymbol swatch={palette(item.color)} size="1.5rem" />
           </button>
         ))}
       </div>
-
-      <style>{`
-        .grid-item.correct {
-          animation: correctPulse 0.5s ease-in-out;
-          background-color: #4CAF50 !important;
-          border-color: #4CAF50 !important;
-        }
-
-        @keyframes correctPulse {
-          0%, 100% { transform: scale(1); }
-          50% { transform: scale(1.1); }
-        }
-
-        .grid-item.wrong {
-          animation: wrongShake 0.5s ease-in-out;
-          background-color: #F44336 !important;
-          border-color: #F44336 !important;
-        }
-
-        @keyframes wrongShake {
-          0%, 100% { transform: translateX(0); }
-          20% { transform: translateX(-5px); }
-          40% { transform: translateX(5px); }
-          60% { transform: translateX(-5px); }
-          80% { transform: translateX(5px); }
-        }
-
-        .grid-item:hover:not(:disabled) {
-          background-color: #f8f8f8 !important;
-          transform: scale(1.05);
-          border-color: #bbb !important;
-        }
-      `}</style>
     </div>
   );
 };
@@ -1,96 +1,118 @@
-import React, { useState, useEffect } from "react";
-import { MicrogameProps } from "../../types/game.types";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { ColorKey, MicrogameProps } from "../../types/game.types";
+import { useMicrogameInput } from "../../hooks/useMicrogameInput";
+import { useMicrogameEngine } from "../../hooks/useMicrogameEngine";
+import {
+  getFocusStyle,
+  useTargetNavigation,
+} from "../../hooks/useTargetNavigation";
+import { usePalette } from "../../hooks/usePalette";
+import {
+  SEQUENCE_MEMORY_DIFFICULTY,
+  sequenceMemory,
+} from "../../engines/sequenceMemory";
+import SwatchSymbol from "../SwatchSymbol";
+import { sound } from "../../utils/audio";
+import { tokens } from "../../theme/theme";
 
-interface SequenceMemoryState {
-  sequence: number[];
-  playerSequence: number[];
+interface PlaybackState {
   isPlaying: boolean;
   currentFlash: number | null;
   phase: 'showing' | 'input';
   buttonFeedback: { [key: number]: 'correct' | 'wrong' | null };
 }
 
-const BUTTONS = [
-  { id: 0, color: '#EF4444', position: 'top-left' },     // Red
-  { id: 1, color: '#3B82F6', position: 'top-right' },    // Blue
-  { id: 2, color: '#F59E0B', position: 'bottom-left' },  // Orange
-  { id: 3, color: '#10B981', position: 'bottom-right' }, // Green
+// Tones (Hz) follow the classic Simon pitches so each button is recognizable by ear
+const BUTTONS: { id: number; color: ColorKey; position: string; tone: number }[] = [
+  { id: 0, color: 'red', position: 'top-left', tone: 310 },
+  { id: 1, color: 'blue', position: 'top-right', tone: 209 },
+  { id: 2, color: 'orange', position: 'bottom-left', tone: 252 },
+  { id: 3, color: 'green', position: 'bottom-right', tone: 415 },
 ];
 
-const SequenceMemory: React.FC<MicrogameProps> = ({ onComplete }) => {
-  const [gameState, setGameState] = useState<SequenceMemoryState>({
-    sequence: [],
-    playerSequence: [],
+const TAP_TONE_MS = 150;
+
+const SequenceMemory: React.FC<MicrogameProps> = ({
+  onComplete,
+  onHit,
+  onMistake,
+  rng,
+  difficulty,
+  scheduler,
+  input,
+  controls,
+}) => {
+  const { flashMs, gapMs } = SEQUENCE_MEMORY_DIFFICULTY[difficulty];
+
+  const palette = usePalette();
+  // Audio-only only applies when the player can actually hear the tones
+  const [audioOnly] = useState(
+    () => sound.isAudible() && sound.getSettings().audioOnlySequence
+  );
+  const [engineState, apply] = useMicrogameEngine(
+    sequenceMemory,
+    rng.seed,
+    difficulty
+  );
+  const [gameState, setGameState] = useState<PlaybackState>({
     isPlaying: false,
     currentFlash: null,
     phase: 'showing',
     buttonFeedback: {}
   });
 
-  const generateSequence = (length: number = 4): number[] => {
-    const sequence: number[] = [];
-    for (let i = 0; i < length; i++) {
-      sequence.push(Math.floor(Math.random() * 4));
-    }
-    return sequence;
-  };
-
-  const delay = (ms: number): Promise<void> => {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  };
-
-  const playSequence = async (sequence: number[]): Promise<void> => {
+  const playSequence = useCallback(async (sequence: number[]): Promise<void> => {
     setGameState(prev => ({ 
       ...prev, 
       phase: 'showing', 
       isPlaying: true,
-      playerSequence: [],
       buttonFeedback: {}
     }));
     
-    await delay(500); // Initial delay
+    await scheduler.delay(500); // Initial delay
     
     for (let i = 0; i < sequence.length; i++) {
       const buttonIndex = sequence[i];
       
       // Light up button
-      setGameState(prev => ({ ...prev, currentFlash: buttonIndex }));
-      await delay(400);
+      sound.tone(BUTTONS[buttonIndex].tone, flashMs);
+      if (!audioOnly) {
+        setGameState(prev => ({ ...prev, currentFlash: buttonIndex }));
+      }
+      await scheduler.delay(flashMs);
       
       // Turn off
       setGameState(prev => ({ ...prev, currentFlash: null }));
-      await delay(200);
+      await scheduler.delay(gapMs);
     }
     
-    await delay(300); // Pause before input phase
+    await scheduler.delay(300); // Pause before input phase
     
     setGameState(prev => ({ 
       ...prev,
       phase: 'input', 
       isPlaying: false,
-      currentFlash: null,
-      playerSequence: []
+      currentFlash: null
     }));
-  };
+  }, [scheduler, flashMs, gapMs, audioOnly]);
 
   const handleButtonTap = (buttonIndex: number): void => {
     if (gameState.phase !== 'input' || gameState.isPlaying) return;
     
-    const currentStep = gameState.playerSequence.length;
-    const expectedButton = gameState.sequence[currentStep];
-    
-    if (buttonIndex === expectedButton) {
+    sound.tone(BUTTONS[buttonIndex].tone, TAP_TONE_MS);
+    const { state, outcome } = apply(buttonIndex);
+    if (outcome === 'ignored') return;
+
+    if (outcome === 'hit') {
       // Correct!
-      const newPlayerSequence = [...gameState.playerSequence, buttonIndex];
-      
+      onHit();
       setGameState(prev => ({
         ...prev,
-        playerSequence: newPlayerSequence,
         buttonFeedback: { ...prev.buttonFeedback, [buttonIndex]: 'correct' }
       }));
       
       // Clear feedback after animation
-      setTimeout(() => {
+      scheduler.setTimeout(() => {
         setGameState(prev => ({
           ...prev,
           buttonFeedback: { ...prev.buttonFeedback, [buttonIndex]: null }
@@ -98,29 +120,32 @@ const SequenceMemory: React.FC<MicrogameProps> = ({ onComplete }) => {
       }, 300);
       
       // Check if sequence complete
-      if (newPlayerSequence.length === gameState.sequence.length) {
-        setTimeout(() => {
+      if (sequenceMemory.status(state) === 'won') {
+        scheduler.setTimeout(() => {
           onComplete();
         }, 500);
       }
     } else {
-      // Wrong!
+      // Wrong! The engine has already restarted the attempt
+      onMistake();
       setGameState(prev => ({
         ...prev,
         buttonFeedback: { ...prev.buttonFeedback, [buttonIndex]: 'wrong' }
       }));
       
-      // Reset player sequence after brief delay
-      setTimeout(() => {
-        setGameState(prev => ({
-          ...prev,
-          playerSequence: [],
-          buttonFeedback: {}
-        }));
+      scheduler.setTimeout(() => {
+        setGameState(prev => ({ ...prev, buttonFeedback: {} }));
       }, 500);
     }
   };
 
+  const select = useMicrogameInput(input, handleButtonTap);
+  const focused = useTargetNavigation(controls, {
+    count: BUTTONS.length,
+    columns: 2,
+    select,
+  });
+
   const getButtonClassName = (buttonId: number): string => {
     let className = 'memory-button';
     
@@ -130,20 +155,21 @@ const SequenceMemory: React.FC<MicrogameProps> = ({ onComplete }) => {
     
     const feedback = gameState.buttonFeedback[buttonId];
     if (feedback === 'correct') {
-      className += ' correct-tap';
+      className += ' feedback-correct';
     } else if (feedback === 'wrong') {
-      className += ' wrong-tap';
+      className += ' feedback-wrong';
     }
     
     return className;
   };
 
-  // Initialize game on mount
+  // Play each generated sequence once, even if the effect re-runs
+  const playedSequence = useRef<number[] | null>(null);
   useEffect(() => {
-    const sequence = generateSequence(4);
-    setGameState(prev => ({ ...prev, sequence }));
-    playSequence(sequence);
-  }, []);
+    if (playedSequence.current === engineState.sequence) return;
+    playedSequence.current = engineState.sequence;
+    playSequence(engineState.sequence);
+  }, [engineState.sequence, playSequence]);
 
   return (
     <div 
@@ -167,7 +193,11 @@ const SequenceMemory: React.FC<MicrogameProps> = ({ onComplete }) => {
           minHeight: '2rem'
         }}
       >
-        {gameState.phase === 'showing' ? 'Watch and repeat' : 'Your turn!'}
+        {gameState.phase === 'input'
+          ? 'Your turn!'
+          : audioOnly
+          ? 'Listen and repeat'
+          : 'Watch and repeat'}
       </p>
       
       <div 
@@ -188,29 +218,33 @@ const SequenceMemory: React.FC<MicrogameProps> = ({ onComplete }) => {
             key={button.id}
             className={getButtonClassName(button.id)}
             style={{ 
-              backgroundColor: button.color,
+              ...getFocusStyle(focused === button.id),
+              position: 'relative',
+              backgroundColor: palette(button.color).hex,
               width: '140px',
               height: '140px',
-              border: '3px solid #333',
+              border: `3px solid ${tokens.color.outline}`,
               borderRadius: '12px',
               cursor: gameState.phase === 'input' ? 'pointer' : 'default',
               transition: 'all 0.15s ease-in-out',
               filter: gameState.currentFlash === button.id ? 'brightness(1.3)' : 'brightness(0.7)',
               transform: gameState.currentFlash === button.id ? 'scale(1.05)' : 'scale(1)',
-              boxShadow: gameState.currentFlash === button.id 
-                ? '0 0 20px rgba(255, 255, 255, 0.5)' 
-                : '0 4px 8px rgba(0,0,0,0.2)'
+              boxShadow: gameState.currentFlash === button.id
+                ? tokens.shadow.glow
+                : tokens.shadow.raised
             }}
-            onClick={() => handleButtonTap(button.id)}
+            onClick={() => select(button.id)}
             disabled={gameState.phase === 'showing'}
-            aria-label={`${button.color} button`}
-          />
+            aria-label={`${palette(button.color).name} button`}
+          >
+            <SwatchSymbol swatch={palette(button.color)} />
+          </button>
         ))}
       </div>
       
       <div 
         className="progress-indicator" 
-        aria-label={`Progress: ${gameState.playerSequence.length} of ${gameState.sequence.length}`}
+        aria-label={`Progress: ${engineState.progress} of ${engineState.sequence.length}`}
         style={{
           display: 'flex',
           justifyContent: 'center',
@@ -218,41 +252,19 @@ const SequenceMemory: React.FC<MicrogameProps> = ({ onComplete }) => {
           marginTop: '1rem'
         }}
       >
-        {gameState.sequence.map((_, index) => (
+        {engineState.sequence.map((_, index) => (
           <span 
             key={index}
             style={{
               width: '12px',
               height: '12px',
               borderRadius: '50%',
-              backgroundColor: index < gameState.playerSequence.length ? '#4CAF50' : '#E0E0E0',
+              backgroundColor: index < engineState.progress ? tokens.color.success : tokens.color.border,
               transition: 'background-color 0.2s ease'
             }}
           />
         ))}
       </div>
-
-      <style>{`
-        .memory-button.correct-tap {
-          animation: correctPulse 0.3s ease-in-out;
-        }
-
-        @keyframes correctPulse {
-          0%, 100% { transform: scale(1); }
-          50% { transform: scale(1.1); }
-        }
-
-        .memory-button.wrong-tap {
-          animation: wrongShake 0.4s ease-in-out;
-        }
-
-        @keyframes wrongShake {
-          0%, 100% { transform: translateX(0); }
-          25% { transform: translateX(-10px); }
-          50% { transform: translateX(10px); }
-          75% { transform: translateX(-10px); }
-        }
-      `}</style>
     </div>
   );
 };
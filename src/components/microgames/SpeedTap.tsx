@@ -1,135 +1,69 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { MicrogameProps } from "../../types/game.types";
+import { useMicrogameInput } from "../../hooks/useMicrogameInput";
+import { useMicrogameEngine } from "../../hooks/useMicrogameEngine";
+import {
+  getFocusStyle,
+  useTargetNavigation,
+} from "../../hooks/useTargetNavigation";
+import { usePalette } from "../../hooks/usePalette";
+import { speedTap } from "../../engines/speedTap";
+import { tokens } from "../../theme/theme";
+
+const SpeedTap: React.FC<MicrogameProps> = ({
+  onComplete,
+  onHit,
+  onMistake,
+  rng,
+  difficulty,
+  scheduler,
+  input,
+  controls,
+}) => {
+  const palette = usePalette();
+  const [gameState, apply] = useMicrogameEngine(speedTap, rng.seed, difficulty);
+  const [wrongTapFeedback, setWrongTapFeedback] = useState<number | null>(null);
+  const [correctTapFeedback, setCorrectTapFeedback] = useState<boolean>(false);
 
-interface ButtonConfig {
-  id: number;
-  color: string;
-  label: string;
-  isTarget: boolean;
-}
-
-interface SpeedTapState {
-  buttons: ButtonConfig[];
-  targetIndex: number;
-  tapCount: number;
-  requiredTaps: number;
-  wrongTapFeedback: number | null;
-  correctTapFeedback: boolean;
-}
-
-const BUTTON_COLORS = [
-  { color: '#EF4444', label: 'Red' },
-  { color: '#3B82F6', label: 'Blue' },
-  { color: '#10B981', label: 'Green' },
-  { color: '#F59E0B', label: 'Orange' },
-];
-
-const SpeedTap: React.FC<MicrogameProps> = ({ onComplete }) => {
-  const [gameState, setGameState] = useState<SpeedTapState>({
-    buttons: [],
-    targetIndex: 0,
-    tapCount: 0,
-    requiredTaps: 10,
-    wrongTapFeedback: null,
-    correctTapFeedback: false,
-  });
-
-  const generateGame = (): SpeedTapState => {
-    // Use all 4 colors
-    const buttons = BUTTON_COLORS.map((config, index) => ({
-      id: index,
-      color: config.color,
-      label: config.label,
-      isTarget: false, // Will be set dynamically
-    }));
-    
-    // Random initial target
-    const targetIndex = Math.floor(Math.random() * 4);
-    buttons[targetIndex].isTarget = true;
-    
-    return {
-      buttons,
-      targetIndex,
-      tapCount: 0,
-      requiredTaps: 15,
-      wrongTapFeedback: null,
-      correctTapFeedback: false,
-    };
-  };
+  const handleButtonTap = (index: number): void => {
+    const { state, outcome } = apply(index);
 
-  const selectNewTarget = (currentTargetIndex: number): number => {
-    // Pick a different color than the current one
-    let newTarget;
-    do {
-      newTarget = Math.floor(Math.random() * 4);
-    } while (newTarget === currentTargetIndex);
-    return newTarget;
-  };
+    if (outcome === 'hit') {
+      onHit();
+      setCorrectTapFeedback(true);
+      scheduler.setTimeout(() => setCorrectTapFeedback(false), 150);
 
-  const handleButtonTap = (index: number): void => {
-    const button = gameState.buttons[index];
-    
-    if (button.isTarget) {
-      // Correct tap!
-      const newCount = gameState.tapCount + 1;
-      
-      // Check if we should change target (every 3 taps)
-      const shouldChangeTarget = newCount % 3 === 0 && newCount < gameState.requiredTaps;
-      let newTargetIndex = gameState.targetIndex;
-      
-      if (shouldChangeTarget) {
-        newTargetIndex = selectNewTarget(gameState.targetIndex);
-      }
-      
-      setGameState(prev => {
-        const newButtons = prev.buttons.map((btn, i) => ({
-          ...btn,
-          isTarget: i === newTargetIndex
-        }));
-        
-        return {
-          ...prev,
-          buttons: newButtons,
-          targetIndex: newTargetIndex,
-          tapCount: newCount,
-          correctTapFeedback: true
-        };
-      });
-      
-      // Clear correct feedback
-      setTimeout(() => {
-        setGameState(prev => ({ ...prev, correctTapFeedback: false }));
-      }, 150);
-      
-      // Check completion
-      if (newCount >= gameState.requiredTaps) {
-        setTimeout(() => {
+      if (speedTap.status(state) === 'won') {
+        scheduler.setTimeout(() => {
           onComplete();
         }, 200);
       }
-    } else {
-      // Wrong button!
-      setGameState(prev => ({ ...prev, wrongTapFeedback: index }));
-      
-      // Clear wrong feedback
-      setTimeout(() => {
-        setGameState(prev => ({ ...prev, wrongTapFeedback: null }));
-      }, 300);
+    } else if (outcome === 'mistake') {
+      onMistake();
+      setWrongTapFeedback(index);
+      scheduler.setTimeout(() => setWrongTapFeedback(null), 300);
     }
   };
 
+  const select = useMicrogameInput(input, handleButtonTap);
+  const focused = useTargetNavigation(controls, {
+    count: gameState.colors.length,
+    columns: 2,
+    select,
+  });
+
   const getButtonClassName = (index: number): string => {
     let className = 'speed-tap-button';
     
-    if (gameState.buttons[index]?.isTarget) {
+    if (gameState.targetIndex === index) {
       className += ' target-button';
-      if (gameState.correctTapFeedback) {
-        className += ' correct-tap';
+      if (correctTapFeedback) {
+        className += ' feedback-correct feedback-quick';
       }
     }
     
-    if (gameState.wrongTapFeedback === index) {
-      className += ' wrong-tap';
+    if (wrongTapFeedback === index) {
+      className += ' feedback-wrong';
     }
     
     return className;
@@ -139,12 +73,7 @@ const SpeedTap: React.FC<MicrogameProps> = ({ onComplete }) => {
     return (gameState.tapCount / gameState.requiredTaps) * 100;
   };
 
-  // Initialize game on mount
-  useEffect(() => {
-    setGameState(generateGame());
-  }, []);
-
-  const targetButton = gameState.buttons.find(btn => btn.isTarget);
+  const targetSwatch = palette(gameState.colors[gameState.targetIndex]);
 
   return (
     <div 
@@ -164,15 +93,16 @@ const SpeedTap: React.FC<MicrogameProps> = ({ onComplete }) => {
         <p style={{ fontSize: '1.5rem', fontWeight: 'bold', marginBottom: '0.5rem' }}>
           Tap the{' '}
           <span style={{ 
-            color: targetButton?.color,
+            color: targetSwatch.hex,
             fontSize: '1.8rem',
-            textShadow: '1px 1px 2px rgba(0,0,0,0.3)'
+            textShadow: tokens.shadow.text
           }}>
-            {targetButton?.label.toUpperCase()}
+            {targetSwatch.name.toUpperCase()}
+            {targetSwatch.symbol && ` ${targetSwatch.symbol}`}
           </span>
           {' '}button
         </p>
-        <p style={{ fontSize: '1.2rem', color: '#666' }}>
+        <p style={{ fontSize: '1.2rem', color: tokens.color.textMuted }}>
           {gameState.requiredTaps - gameState.tapCount} more times!
         </p>
       </div>
@@ -192,7 +122,7 @@ const SpeedTap: React.FC<MicrogameProps> = ({ onComplete }) => {
         <div style={{
           width: '300px',
           height: '20px',
-          backgroundColor: '#E0E0E0',
+          backgroundColor: tokens.color.border,
           borderRadius: '10px',
           margin: '0 auto',
           overflow: 'hidden'
@@ -200,7 +130,7 @@ const SpeedTap: React.FC<MicrogameProps> = ({ onComplete }) => {
           <div style={{
             width: `${getProgressPercentage()}%`,
             height: '100%',
-            backgroundColor: '#4CAF50',
+            backgroundColor: tokens.color.success,
             transition: 'width 0.2s ease',
             borderRadius: '10px'
           }} />
@@ -215,53 +145,33 @@ const SpeedTap: React.FC<MicrogameProps> = ({ onComplete }) => {
         maxWidth: '350px',
         margin: '0 auto'
       }}>
-        {gameState.buttons.map((button) => (
+        {gameState.colors.map((color, index) => (
           <button
-            key={button.id}
-            className={getButtonClassName(button.id)}
+            key={index}
+            className={getButtonClassName(index)}
             style={{
-              backgroundColor: button.color,
+              ...getFocusStyle(focused === index),
+              backgroundColor: palette(color).hex,
               width: '140px',
               height: '140px',
-              border: '3px solid #333',
+              border: `3px solid ${tokens.color.outline}`,
               borderRadius: '12px',
               cursor: 'pointer',
               fontSize: '1.1rem',
               fontWeight: 'bold',
               color: 'white',
-              textShadow: '1px 1px 2px rgba(0,0,0,0.5)',
-              boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+              textShadow: tokens.shadow.textOnFill,
+              boxShadow: tokens.shadow.raised,
               transition: 'all 0.2s ease'
             }}
-            onClick={() => handleButtonTap(button.id)}
-            aria-label={`${button.label} ${button.isTarget ? 'target' : ''} button`}
+            onClick={() => select(index)}
+            aria-label={`${palette(color).name} ${gameState.targetIndex === index ? 'target' : ''} button`}
           >
-            {button.label}
+            {palette(color).name}
+            {palette(color).symbol && ` ${palette(color).symbol}`}
           </button>
         ))}
       </div>
-
-      <style>{`
-        .speed-tap-button.correct-tap {
-          animation: correctPulse 0.15s ease-in-out;
-        }
-
-        @keyframes correctPulse {
-          0%, 100% { transform: scale(1); }
-          50% { transform: scale(1.1); }
-        }
-
-        .speed-tap-button.wrong-tap {
-          animation: wrongShake 0.3s ease-in-out;
-        }
-
-        @keyframes wrongShake {
-          0%, 100% { transform: translateX(0); }
-          25% { transform: translateX(-8px); }
-          75% { transform: translateX(8px); }
-        }
-
-      `}</style>
     </div>
   );
 };
@@ -0,0 +1,54 @@
+import { registerMicrogame } from "./registry";
+import ColorMatch from "./ColorMatch";
+import SequenceMemory from "./SequenceMemory";
+import SpeedTap from "./SpeedTap";
+import DirectionMatch from "./DirectionMatch";
+import OddOneOut from "./OddOneOut";
+
+registerMicrogame({
+  id: "color-match",
+  name: "Color Match",
+  instructions: "Tap the color that matches the target",
+  icon: "🎨",
+  component: ColorMatch,
+});
+
+registerMicrogame({
+  id: "sequence-memory",
+  name: "Sequence Memory",
+  instructions: "Watch the pattern, then repeat it",
+  icon: "🧠",
+  component: SequenceMemory,
+});
+
+registerMicrogame({
+  id: "speed-tap",
+  name: "Speed Tap",
+  instructions: "Tap the named color as fast as you can",
+  icon: "⚡",
+  component: SpeedTap,
+});
+
+registerMicrogame({
+  id: "direction-match",
+  name: "Direction Match",
+  instructions: "Tap the arrow pointing the right way",
+  icon: "🧭",
+  component: DirectionMatch,
+});
+
+registerMicrogame({
+  id: "odd-one-out",
+  name: "Odd One Out",
+  instructions: "Find the item that doesn't belong",
+  icon: "🔍",
+  component: OddOneOut,
+});
+
+export {
+  registerMicrogame,
+  getMicrogame,
+  getMicrogameLabel,
+  getRegisteredMicrogames,
+  isRegisteredMicrogame,
+} from "./registry";
@@ -0,0 +1,31 @@
+import { MicrogameDefinition } from "../../types/game.types";
+
+const registry = new Map<string, MicrogameDefinition>();
+
+export const registerMicrogame = (definition: MicrogameDefinition): void => {
+  if (registry.has(definition.id)) {
+    throw new Error(`Microgame "${definition.id}" is already registered`);
+  }
+  registry.set(definition.id, definition);
+};
+
+export const getMicrogame = (id: string): MicrogameDefinition => {
+  const definition = registry.get(id);
+  if (!definition) {
+    throw new Error(`Unknown microgame "${id}"`);
+  }
+  return definition;
+};
+
+export const isRegisteredMicrogame = (id: string): boolean => registry.has(id);
+
+// For ids from storage or other players, which may name a game this build
+// doesn't have; never throws
+export const getMicrogameLabel = (
+  id: string
+): Pick<MicrogameDefinition, "icon" | "name"> =>
+  registry.get(id) ?? { icon: "❔", name: id };
+
+// Registration order is the default level order
+export const getRegisteredMicrogames = (): MicrogameDefinition[] =>
+  Array.from(registry.values());
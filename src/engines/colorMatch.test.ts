@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { colorMatch, COLOR_MATCH_DIFFICULTY } from "./colorMatch";
+import { DifficultyTier } from "../types/game.types";
+
+const TIERS: DifficultyTier[] = ["easy", "normal", "hard"];
+const SEEDS = Array.from({ length: 50 }, (_, index) => index + 1);
+
+const correctIndex = (seed: number, difficulty: DifficultyTier = "normal") =>
+  colorMatch
+    .init(seed, difficulty)
+    .options.findIndex((option) => option.isCorrect);
+
+describe("colorMatch", () => {
+  it.each(TIERS)("deals one correct option among distinct colors (%s)", (tier) => {
+    const state = colorMatch.init(42, tier);
+    const colors = state.options.map((option) => option.color);
+
+    expect(state.options).toHaveLength(COLOR_MATCH_DIFFICULTY[tier].optionCount);
+    expect(new Set(colors).size).toBe(colors.length);
+    expect(state.options.filter((option) => option.isCorrect)).toEqual([
+      { color: state.targetColor, isCorrect: true },
+    ]);
+  });
+
+  it("is reproducible from the seed", () => {
+    expect(colorMatch.init(7, "hard")).toEqual(colorMatch.init(7, "hard"));
+  });
+
+  it("is won by tapping the matching color", () => {
+    const state = colorMatch.init(3, "normal");
+    const step = colorMatch.apply(state, correctIndex(3));
+
+    expect(step.outcome).toBe("hit");
+    expect(colorMatch.status(step.state)).toBe("won");
+  });
+
+  it("stays in play after a wrong tap and can still be won", () => {
+    const state = colorMatch.init(3, "normal");
+    const wrong = state.options.findIndex((option) => !option.isCorrect);
+
+    const miss = colorMatch.apply(state, wrong);
+    expect(miss.outcome).toBe("mistake");
+    expect(colorMatch.status(miss.state)).toBe("playing");
+
+    const hit = colorMatch.apply(miss.state, correctIndex(3));
+    expect(colorMatch.status(hit.state)).toBe("won");
+  });
+
+  it("ignores taps after the win and outside the options", () => {
+    const state = colorMatch.init(3, "easy");
+    const won = colorMatch.apply(state, correctIndex(3, "easy")).state;
+
+    expect(colorMatch.apply(won, 0).outcome).toBe("ignored");
+    expect(colorMatch.apply(state, 99).outcome).toBe("ignored");
+    expect(colorMatch.apply(state, -1).outcome).toBe("ignored");
+  });
+
+  it("moves the target between positions across seeds", () => {
+    const positions = new Set(SEEDS.map((seed) => correctIndex(seed)));
+    expect(positions.size).toBe(COLOR_MATCH_DIFFICULTY.normal.optionCount);
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  ColorKey,
+  ColorMatchDifficulty,
+  DifficultyTier,
+  MicrogameEngine,
+} from "../types/game.types";
+import { createRng } from "../utils/rng";
+
+export interface ColorOption {
+  color: ColorKey;
+  isCorrect: boolean;
+}
+
+export interface ColorMatchState {
+  targetColor: ColorKey;
+  options: ColorOption[];
+  solved: boolean;
+}
+
+const COLORS: ColorKey[] = [
+  "red",
+  "blue",
+  "green",
+  "orange",
+  "purple",
+  "pink",
+  "teal",
+  "deep-orange",
+];
+
+export const COLOR_MATCH_DIFFICULTY: Record<
+  DifficultyTier,
+  ColorMatchDifficulty
+> = {
+  easy: { optionCount: 2 },
+  normal: { optionCount: 4 },
+  hard: { optionCount: 6 },
+};
+
+export const colorMatch: MicrogameEngine<ColorMatchState> = {
+  init: (seed, difficulty) => {
+    const { optionCount } = COLOR_MATCH_DIFFICULTY[difficulty];
+    const setup = createRng(seed).fork("setup");
+    const shuffled = setup.shuffle(COLORS);
+    const targetColor = shuffled[0];
+    const incorrectColors = shuffled.slice(1, optionCount);
+
+    return {
+      targetColor,
+      options: setup.shuffle([
+        { color: targetColor, isCorrect: true },
+        ...incorrectColors.map((color) => ({ color, isCorrect: false })),
+      ]),
+      solved: false,
+    };
+  },
+
+  apply: (state, input) => {
+    const option = state.options[input];
+    if (state.solved || !option) return { state, outcome: "ignored" };
+
+    return option.isCorrect
+      ? { state: { ...state, solved: true }, outcome: "hit" }
+      : { state, outcome: "mistake" };
+  },
+
+  status: (state) => (state.solved ? "won" : "playing"),
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  directionMatch,
+  DIRECTION_MATCH_DIFFICULTY,
+} from "./directionMatch";
+import { DifficultyTier } from "../types/game.types";
+
+const TIERS: DifficultyTier[] = ["easy", "normal", "hard"];
+const SEEDS = Array.from({ length: 50 }, (_, index) => index + 1);
+
+const targetIndex = (seed: number, difficulty: DifficultyTier = "normal") => {
+  const state = directionMatch.init(seed, difficulty);
+  return state.arrows.indexOf(state.targetDirection);
+};
+
+describe("directionMatch", () => {
+  it.each(TIERS)("shows the target once among distinct arrows (%s)", (tier) => {
+    const state = directionMatch.init(42, tier);
+
+    expect(state.arrows).toHaveLength(
+      DIRECTION_MATCH_DIFFICULTY[tier].arrowCount
+    );
+    expect(new Set(state.arrows).size).toBe(state.arrows.length);
+    expect(
+      state.arrows.filter((arrow) => arrow === state.targetDirection)
+    ).toHaveLength(1);
+  });
+
+  it("uses diagonals only when there are more arrows than cardinals", () => {
+    for (const seed of SEEDS) {
+      const { arrows } = directionMatch.init(seed, "normal");
+      expect(arrows.every((arrow) => !arrow.includes("-"))).toBe(true);
+    }
+    expect(directionMatch.init(1, "hard").arrows.some((arrow) =>
+      arrow.includes("-")
+    )).toBe(true);
+  });
+
+  it("is won by tapping the named direction", () => {
+    const state = directionMatch.init(5, "hard");
+    const step = directionMatch.apply(state, targetIndex(5, "hard"));
+
+    expect(step.outcome).toBe("hit");
+    expect(directionMatch.status(step.state)).toBe("won");
+  });
+
+  it("stays in play after a wrong arrow and can still be won", () => {
+    const state = directionMatch.init(5, "normal");
+    const wrong = state.arrows.findIndex(
+      (arrow) => arrow !== state.targetDirection
+    );
+
+    const miss = directionMatch.apply(state, wrong);
+    expect(miss.outcome).toBe("mistake");
+    expect(directionMatch.status(miss.state)).toBe("playing");
+
+    const hit = directionMatch.apply(miss.state, targetIndex(5));
+    expect(directionMatch.status(hit.state)).toBe("won");
+  });
+
+  it("ignores taps after the win", () => {
+    const state = directionMatch.init(5, "easy");
+    const won = directionMatch.apply(state, targetIndex(5, "easy")).state;
+
+    expect(directionMatch.apply(won, 0).outcome).toBe("ignored");
+    expect(directionMatch.apply(won, 1).outcome).toBe("ignored");
+  });
+
+  it("moves the target between positions across seeds", () => {
+    const positions = new Set(SEEDS.map((seed) => targetIndex(seed)));
+    expect(positions.size).toBe(DIRECTION_MATCH_DIFFICULTY.normal.arrowCount);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  DifficultyTier,
+  DirectionMatchDifficulty,
+  MicrogameEngine,
+} from "../types/game.types";
+import { createRng } from "../utils/rng";
+
+export type Direction =
+  | "up"
+  | "down"
+  | "left"
+  | "right"
+  | "up-right"
+  | "down-right"
+  | "down-left"
+  | "up-left";
+
+export interface DirectionMatchState {
+  targetDirection: Direction;
+  arrows: Direction[];
+  solved: boolean;
+}
+
+const CARDINAL_DIRECTIONS: Direction[] = ["up", "down", "left", "right"];
+const DIAGONAL_DIRECTIONS: Direction[] = [
+  "up-right",
+  "down-right",
+  "down-left",
+  "up-left",
+];
+
+export const DIRECTION_MATCH_DIFFICULTY: Record<
+  DifficultyTier,
+  DirectionMatchDifficulty
+> = {
+  easy: { arrowCount: 2 },
+  normal: { arrowCount: 4 },
+  hard: { arrowCount: 8 },
+};
+
+export const directionMatch: MicrogameEngine<DirectionMatchState> = {
+  init: (seed, difficulty) => {
+    const { arrowCount } = DIRECTION_MATCH_DIFFICULTY[difficulty];
+    const setup = createRng(seed).fork("setup");
+
+    const pool =
+      arrowCount > CARDINAL_DIRECTIONS.length
+        ? [...CARDINAL_DIRECTIONS, ...DIAGONAL_DIRECTIONS]
+        : CARDINAL_DIRECTIONS;
+    const targetDirection = setup.pick(pool);
+
+    // Target plus arrowCount - 1 distractors, shuffled
+    const distractors = setup
+      .shuffle(pool.filter((direction) => direction !== targetDirection))
+      .slice(0, arrowCount - 1);
+
+    return {
+      targetDirection,
+      arrows: setup.shuffle([targetDirection, ...distractors]),
+      solved: false,
+    };
+  },
+
+  apply: (state, input) => {
+    const arrow = state.arrows[input];
+    if (state.solved || !arrow) return { state, outcome: "ignored" };
+
+    return arrow === state.targetDirection
+      ? { state: { ...state, solved: true }, outcome: "hit" }
+      : { state, outcome: "mistake" };
+  },
+
+  status: (state) => (state.solved ? "won" : "playing"),
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { oddOneOut, ODD_ONE_OUT_DIFFICULTY } from "./oddOneOut";
+import { DifficultyTier } from "../types/game.types";
+
+const TIERS: DifficultyTier[] = ["easy", "normal", "hard"];
+const SEEDS = Array.from({ length: 50 }, (_, index) => index + 1);
+
+describe("oddOneOut", () => {
+  it.each(TIERS)("deals exactly one odd item (%s)", (tier) => {
+    const state = oddOneOut.init(42, tier);
+    const odd = state.items.filter((item) => item.isOdd);
+
+    expect(state.items).toHaveLength(ODD_ONE_OUT_DIFFICULTY[tier].itemCount);
+    expect(odd).toHaveLength(1);
+    expect(state.items[state.oddItemIndex].isOdd).toBe(true);
+  });
+
+  it("makes every other item identical", () => {
+    const { items } = oddOneOut.init(9, "hard");
+    const [first, ...rest] = items.filter((item) => !item.isOdd);
+
+    rest.forEach((item) => expect(item).toEqual(first));
+  });
+
+  it("is won by tapping the odd item", () => {
+    const state = oddOneOut.init(11, "normal");
+    const step = oddOneOut.apply(state, state.oddItemIndex);
+
+    expect(step.outcome).toBe("hit");
+    expect(oddOneOut.status(step.state)).toBe("won");
+  });
+
+  it("stays in play after a wrong item and can still be won", () => {
+    const state = oddOneOut.init(11, "normal");
+    const wrong = (state.oddItemIndex + 1) % state.items.length;
+
+    const miss = oddOneOut.apply(state, wrong);
+    expect(miss.outcome).toBe("mistake");
+    expect(oddOneOut.status(miss.state)).toBe("playing");
+
+    const hit = oddOneOut.apply(miss.state, state.oddItemIndex);
+    expect(oddOneOut.status(hit.state)).toBe("won");
+  });
+
+  it("ignores taps after the win and outside the grid", () => {
+    const state = oddOneOut.init(11, "easy");
+    const won = oddOneOut.apply(state, state.oddItemIndex).state;
+
+    expect(oddOneOut.apply(won, state.oddItemIndex).outcome).toBe("ignored");
+    expect(oddOneOut.apply(state, state.items.length).outcome).toBe("ignored");
+  });
+
+  it("moves the odd item between positions across seeds", () => {
+    const positions = new Set(
+      SEEDS.map((seed) => oddOneOut.init(seed, "easy").oddItemIndex)
+    );
+    expect(positions.size).toBe(ODD_ONE_OUT_DIFFICULTY.easy.itemCount);
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  ColorKey,
+  DifficultyTier,
+  MicrogameEngine,
+  OddOneOutDifficulty,
+} from "../types/game.types";
+import { createRng } from "../utils/rng";
+
+export type Shape = "circle" | "square" | "triangle" | "star";
+
+export interface ShapeConfig {
+  shape: Shape;
+  color: ColorKey;
+  size: number;
+  rotation: number;
+}
+
+export interface GridItem extends ShapeConfig {
+  isOdd: boolean;
+}
+
+export interface OddOneOutState {
+  items: GridItem[];
+  oddItemIndex: number;
+  solved: boolean;
+}
+
+const SHAPE_SETS: { normal: ShapeConfig; odd: ShapeConfig }[] = [
+  {
+    normal: { shape: "circle", color: "blue", size: 60, rotation: 0 },
+    odd: { shape: "circle", color: "red", size: 60, rotation: 0 }, // Different color
+  },
+  {
+    normal: { shape: "square", color: "green", size: 60, rotation: 0 },
+    odd: { shape: "circle", color: "green", size: 60, rotation: 0 }, // Different shape
+  },
+  {
+    normal: { shape: "triangle", color: "orange", size: 60, rotation: 0 },
+    odd: { shape: "triangle", color: "orange", size: 60, rotation: 180 }, // Rotated
+  },
+  {
+    normal: { shape: "star", color: "purple", size: 60, rotation: 0 },
+    odd: { shape: "star", color: "purple", size: 80, rotation: 0 }, // Different size
+  },
+];
+
+// Same four kinds of difference as SHAPE_SETS, but harder to spot
+const SUBTLE_SHAPE_SETS: typeof SHAPE_SETS = [
+  {
+    normal: { shape: "circle", color: "blue", size: 60, rotation: 0 },
+    odd: { shape: "circle", color: "light-blue", size: 60, rotation: 0 }, // Lighter shade
+  },
+  {
+    normal: { shape: "square", color: "green", size: 60, rotation: 0 },
+    odd: { shape: "square", color: "green", size: 52, rotation: 0 }, // Slightly smaller
+  },
+  {
+    normal: { shape: "triangle", color: "orange", size: 60, rotation: 0 },
+    odd: { shape: "triangle", color: "orange", size: 60, rotation: 25 }, // Slight tilt
+  },
+  {
+    normal: { shape: "star", color: "purple", size: 60, rotation: 0 },
+    odd: { shape: "star", color: "purple", size: 68, rotation: 0 }, // Slightly larger
+  },
+];
+
+export const ODD_ONE_OUT_DIFFICULTY: Record<
+  DifficultyTier,
+  OddOneOutDifficulty
+> = {
+  easy: { itemCount: 4, subtle: false },
+  normal: { itemCount: 8, subtle: false },
+  hard: { itemCount: 12, subtle: true },
+};
+
+export const oddOneOut: MicrogameEngine<OddOneOutState> = {
+  init: (seed, difficulty) => {
+    const { itemCount, subtle } = ODD_ONE_OUT_DIFFICULTY[difficulty];
+    const setup = createRng(seed).fork("setup");
+    const set = setup.pick(subtle ? SUBTLE_SHAPE_SETS : SHAPE_SETS);
+    const oddItemIndex = setup.int(itemCount);
+
+    return {
+      items: Array.from({ length: itemCount }, (_, index) => ({
+        ...(index === oddItemIndex ? set.odd : set.normal),
+        isOdd: index === oddItemIndex,
+      })),
+      oddItemIndex,
+      solved: false,
+    };
+  },
+
+  apply: (state, input) => {
+    const item = state.items[input];
+    if (state.solved || !item) return { state, outcome: "ignored" };
+
+    return item.isOdd
+      ? { state: { ...state, solved: true }, outcome: "hit" }
+      : { state, outcome: "mistake" };
+  },
+
+  status: (state) => (state.solved ? "won" : "playing"),
+};
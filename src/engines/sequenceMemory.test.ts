@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  sequenceMemory,
+  SequenceMemoryState,
+  SEQUENCE_MEMORY_BUTTONS,
+  SEQUENCE_MEMORY_DIFFICULTY,
+} from "./sequenceMemory";
+import { DifficultyTier } from "../types/game.types";
+
+const TIERS: DifficultyTier[] = ["easy", "normal", "hard"];
+
+const play = (state: SequenceMemoryState, inputs: number[]) =>
+  inputs.reduce((current, input) => sequenceMemory.apply(current, input).state, state);
+
+const wrongFor = (button: number) => (button + 1) % SEQUENCE_MEMORY_BUTTONS;
+
+describe("sequenceMemory", () => {
+  it.each(TIERS)("deals a sequence of the tier's length (%s)", (tier) => {
+    const { sequence } = sequenceMemory.init(42, tier);
+
+    expect(sequence).toHaveLength(SEQUENCE_MEMORY_DIFFICULTY[tier].sequenceLength);
+    sequence.forEach((button) => {
+      expect(button).toBeGreaterThanOrEqual(0);
+      expect(button).toBeLessThan(SEQUENCE_MEMORY_BUTTONS);
+    });
+  });
+
+  it("is won only after the whole sequence is repeated", () => {
+    const state = sequenceMemory.init(8, "normal");
+    const allButLast = play(state, state.sequence.slice(0, -1));
+
+    expect(sequenceMemory.status(allButLast)).toBe("playing");
+
+    const step = sequenceMemory.apply(allButLast, state.sequence.at(-1)!);
+    expect(step.outcome).toBe("hit");
+    expect(sequenceMemory.status(step.state)).toBe("won");
+  });
+
+  it("restarts the attempt on a wrong button, keeping the sequence", () => {
+    const state = sequenceMemory.init(8, "hard");
+    const partway = play(state, state.sequence.slice(0, 3));
+    expect(partway.progress).toBe(3);
+
+    const miss = sequenceMemory.apply(partway, wrongFor(state.sequence[3]));
+    expect(miss.outcome).toBe("mistake");
+    expect(miss.state.progress).toBe(0);
+    expect(miss.state.sequence).toEqual(state.sequence);
+
+    const retried = play(miss.state, state.sequence);
+    expect(sequenceMemory.status(retried)).toBe("won");
+  });
+
+  it("ignores input after the win and unknown buttons", () => {
+    const state = sequenceMemory.init(8, "easy");
+    const won = play(state, state.sequence);
+
+    expect(sequenceMemory.apply(won, state.sequence[0]).outcome).toBe("ignored");
+    expect(sequenceMemory.apply(state, SEQUENCE_MEMORY_BUTTONS).outcome).toBe(
+      "ignored"
+    );
+  });
+
+  it("deals different sequences for different seeds", () => {
+    const sequences = new Set(
+      Array.from({ length: 20 }, (_, seed) =>
+        sequenceMemory.init(seed, "hard").sequence.join("")
+      )
+    );
+    expect(sequences.size).toBeGreaterThan(1);
+  });
+});
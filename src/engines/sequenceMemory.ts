@@ -0,0 +1,57 @@
+import {
+  DifficultyTier,
+  MicrogameEngine,
+  SequenceMemoryDifficulty,
+} from "../types/game.types";
+import { createRng } from "../utils/rng";
+
+export interface SequenceMemoryState {
+  sequence: number[]; // button indices, in the order they flash
+  progress: number; // correct taps so far in the current attempt
+  buttonCount: number;
+}
+
+export const SEQUENCE_MEMORY_BUTTONS = 4;
+
+export const SEQUENCE_MEMORY_DIFFICULTY: Record<
+  DifficultyTier,
+  SequenceMemoryDifficulty
+> = {
+  easy: { sequenceLength: 3, flashMs: 500, gapMs: 250 },
+  normal: { sequenceLength: 4, flashMs: 400, gapMs: 200 },
+  hard: { sequenceLength: 6, flashMs: 300, gapMs: 150 },
+};
+
+export const sequenceMemory: MicrogameEngine<SequenceMemoryState> = {
+  init: (seed, difficulty) => {
+    const { sequenceLength } = SEQUENCE_MEMORY_DIFFICULTY[difficulty];
+    const setup = createRng(seed).fork("setup");
+
+    return {
+      sequence: Array.from({ length: sequenceLength }, () =>
+        setup.int(SEQUENCE_MEMORY_BUTTONS)
+      ),
+      progress: 0,
+      buttonCount: SEQUENCE_MEMORY_BUTTONS,
+    };
+  },
+
+  // A wrong button restarts the attempt from the first step; the sequence
+  // itself stays the same
+  apply: (state, input) => {
+    if (
+      state.progress >= state.sequence.length ||
+      input < 0 ||
+      input >= state.buttonCount
+    ) {
+      return { state, outcome: "ignored" };
+    }
+
+    return input === state.sequence[state.progress]
+      ? { state: { ...state, progress: state.progress + 1 }, outcome: "hit" }
+      : { state: { ...state, progress: 0 }, outcome: "mistake" };
+  },
+
+  status: (state) =>
+    state.progress >= state.sequence.length ? "won" : "playing",
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { speedTap, SpeedTapState, SPEED_TAP_DIFFICULTY } from "./speedTap";
+import { DifficultyTier } from "../types/game.types";
+
+const TIERS: DifficultyTier[] = ["easy", "normal", "hard"];
+
+// Taps the current target n times, recording where it was for each tap
+const tapTarget = (state: SpeedTapState, n: number) => {
+  const targets: number[] = [];
+  for (let i = 0; i < n; i++) {
+    targets.push(state.targetIndex);
+    state = speedTap.apply(state, state.targetIndex).state;
+  }
+  return { state, targets };
+};
+
+describe("speedTap", () => {
+  it.each(TIERS)("is won after the tier's required taps (%s)", (tier) => {
+    const { requiredTaps } = SPEED_TAP_DIFFICULTY[tier];
+    const initial = speedTap.init(42, tier);
+
+    const almost = tapTarget(initial, requiredTaps - 1).state;
+    expect(speedTap.status(almost)).toBe("playing");
+
+    const step = speedTap.apply(almost, almost.targetIndex);
+    expect(step.outcome).toBe("hit");
+    expect(speedTap.status(step.state)).toBe("won");
+  });
+
+  it.each(TIERS)("moves the target every switchEvery hits (%s)", (tier) => {
+    const { requiredTaps, switchEvery } = SPEED_TAP_DIFFICULTY[tier];
+    const { targets } = tapTarget(speedTap.init(42, tier), requiredTaps);
+
+    targets.forEach((target, tap) => {
+      if (tap === 0) return;
+      if (tap % switchEvery === 0) {
+        expect(target).not.toBe(targets[tap - 1]);
+      } else {
+        expect(target).toBe(targets[tap - 1]);
+      }
+    });
+  });
+
+  it("counts every tap when applied back to back", () => {
+    // Each apply sees the previous result, so no tap is lost to stale state
+    const { state } = tapTarget(speedTap.init(1, "normal"), 7);
+    expect(state.tapCount).toBe(7);
+  });
+
+  it("keeps the count and target after a wrong tap", () => {
+    const partway = tapTarget(speedTap.init(3, "hard"), 3).state;
+    const wrong = (partway.targetIndex + 1) % partway.colors.length;
+
+    const miss = speedTap.apply(partway, wrong);
+    expect(miss.outcome).toBe("mistake");
+    expect(miss.state).toEqual(partway);
+
+    const { requiredTaps } = SPEED_TAP_DIFFICULTY.hard;
+    const finished = tapTarget(miss.state, requiredTaps - 3).state;
+    expect(speedTap.status(finished)).toBe("won");
+  });
+
+  it("ignores taps after the win and outside the buttons", () => {
+    const initial = speedTap.init(3, "easy");
+    const won = tapTarget(initial, SPEED_TAP_DIFFICULTY.easy.requiredTaps).state;
+
+    expect(speedTap.apply(won, won.targetIndex).outcome).toBe("ignored");
+    expect(speedTap.apply(initial, initial.colors.length).outcome).toBe(
+      "ignored"
+    );
+  });
+
+  it("draws the same rotation for the same seed", () => {
+    const { requiredTaps } = SPEED_TAP_DIFFICULTY.hard;
+    expect(tapTarget(speedTap.init(9, "hard"), requiredTaps).targets).toEqual(
+      tapTarget(speedTap.init(9, "hard"), requiredTaps).targets
+    );
+  });
+});
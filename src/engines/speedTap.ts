@@ -0,0 +1,83 @@
+import {
+  ColorKey,
+  DifficultyTier,
+  MicrogameEngine,
+  SpeedTapDifficulty,
+} from "../types/game.types";
+import { createRng } from "../utils/rng";
+
+export interface SpeedTapState {
+  colors: ColorKey[]; // one button per color, in grid order
+  targetIndex: number;
+  tapCount: number;
+  requiredTaps: number;
+  switchEvery: number;
+  upcomingTargets: number[]; // drawn up front, one per target change
+}
+
+const BUTTON_COLORS: ColorKey[] = ["red", "blue", "green", "orange"];
+
+export const SPEED_TAP_DIFFICULTY: Record<DifficultyTier, SpeedTapDifficulty> =
+  {
+    easy: { requiredTaps: 10, switchEvery: 5 },
+    normal: { requiredTaps: 15, switchEvery: 3 },
+    hard: { requiredTaps: 20, switchEvery: 2 },
+  };
+
+export const speedTap: MicrogameEngine<SpeedTapState> = {
+  init: (seed, difficulty) => {
+    const { requiredTaps, switchEvery } = SPEED_TAP_DIFFICULTY[difficulty];
+    const rng = createRng(seed);
+    const targetIndex = rng.fork("setup").int(BUTTON_COLORS.length);
+
+    // The target moves after every switchEvery hits except the last. Each
+    // move picks a different color with exactly one draw, no rejection
+    // sampling, so the order of draws never depends on timing.
+    const upcomingTargets: number[] = [];
+    let current = targetIndex;
+    for (let i = 0; i < Math.floor((requiredTaps - 1) / switchEvery); i++) {
+      const offset = 1 + rng.int(BUTTON_COLORS.length - 1);
+      current = (current + offset) % BUTTON_COLORS.length;
+      upcomingTargets.push(current);
+    }
+
+    return {
+      colors: BUTTON_COLORS,
+      targetIndex,
+      tapCount: 0,
+      requiredTaps,
+      switchEvery,
+      upcomingTargets,
+    };
+  },
+
+  apply: (state, input) => {
+    if (
+      state.tapCount >= state.requiredTaps ||
+      input < 0 ||
+      input >= state.colors.length
+    ) {
+      return { state, outcome: "ignored" };
+    }
+    if (input !== state.targetIndex) return { state, outcome: "mistake" };
+
+    const tapCount = state.tapCount + 1;
+    const switching =
+      tapCount % state.switchEvery === 0 && tapCount < state.requiredTaps;
+
+    return {
+      state: {
+        ...state,
+        tapCount,
+        targetIndex: switching ? state.upcomingTargets[0] : state.targetIndex,
+        upcomingTargets: switching
+          ? state.upcomingTargets.slice(1)
+          : state.upcomingTargets,
+      },
+      outcome: "hit",
+    };
+  },
+
+  status: (state) =>
+    state.tapCount >= state.requiredTaps ? "won" : "playing",
+};
@@ -0,0 +1,50 @@
+import { useEffect } from "react";
+import { ControlChannel } from "../types/game.types";
+import {
+  getGamepadAction,
+  getKeyAction,
+  loadBindings,
+  watchGamepadButtons,
+} from "../utils/controls";
+
+const isTextEntry = (target: EventTarget | null): boolean =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement;
+
+// Translates keyboard and gamepad presses into control actions while enabled
+export const useDeviceControls = (
+  controls: ControlChannel,
+  enabled: boolean
+): void => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const bindings = loadBindings();
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.altKey || e.ctrlKey || e.metaKey || isTextEntry(e.target)) return;
+
+      const action = getKeyAction(bindings, e.key);
+      if (!action) return;
+      // Holding a key repeats focus movement but not selections
+      if (e.repeat && action.type !== "move") return;
+
+      // Keeps arrows/space from scrolling and Enter from also clicking
+      // whichever button has DOM focus
+      e.preventDefault();
+      controls.emit(action);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    const stopGamepads = watchGamepadButtons((button) => {
+      const action = getGamepadAction(bindings, button);
+      if (action) controls.emit(action);
+    });
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      stopGamepads();
+    };
+  }, [controls, enabled]);
+};
@@ -0,0 +1,20 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import {
+  GameAction,
+  GameContainerState,
+  Scheduler,
+} from "../types/game.types";
+import { createGameMachine } from "../utils/gameMachine";
+
+// One machine per mounted container; its timers go when the container does
+export const useGameMachine = (
+  scheduler: Scheduler,
+  gameIds: string[]
+): [GameContainerState, (action: GameAction) => void] => {
+  const [machine] = useState(() => createGameMachine(scheduler, gameIds));
+  const state = useSyncExternalStore(machine.subscribe, machine.getState);
+
+  useEffect(() => machine.dispose, [machine]);
+
+  return [state, machine.dispatch];
+};
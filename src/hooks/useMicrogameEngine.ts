@@ -0,0 +1,30 @@
+import { useCallback, useRef, useState } from "react";
+import {
+  DifficultyTier,
+  EngineStep,
+  MicrogameEngine,
+} from "../types/game.types";
+
+// Holds a microgame engine's state for its view. apply() steps from the
+// latest state rather than the last render's, so rapid inputs that land
+// before a re-render are all counted.
+export const useMicrogameEngine = <S>(
+  engine: MicrogameEngine<S>,
+  seed: number,
+  difficulty: DifficultyTier
+): [S, (input: number) => EngineStep<S>] => {
+  const [state, setState] = useState(() => engine.init(seed, difficulty));
+  const latest = useRef(state);
+
+  const apply = useCallback(
+    (input: number): EngineStep<S> => {
+      const step = engine.apply(latest.current, input);
+      latest.current = step.state;
+      setState(step.state);
+      return step;
+    },
+    [engine]
+  );
+
+  return [state, apply];
+};
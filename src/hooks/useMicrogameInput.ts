@@ -0,0 +1,23 @@
+import { useEffect, useRef } from "react";
+import { InputChannel } from "../types/game.types";
+
+// Connects a microgame's tap handler to its input channel and returns the
+// function its buttons should call. Selections from any source (click,
+// replay, keyboard) reach the handler from the latest render.
+export const useMicrogameInput = (
+  input: InputChannel,
+  onSelect: (target: number) => void
+): ((target: number) => void) => {
+  const onSelectRef = useRef(onSelect);
+
+  useEffect(() => {
+    onSelectRef.current = onSelect;
+  });
+
+  useEffect(
+    () => input.subscribe((target) => onSelectRef.current(target)),
+    [input]
+  );
+
+  return input.emit;
+};
@@ -0,0 +1,10 @@
+import { useState } from "react";
+import { ColorKey, Swatch } from "../types/game.types";
+import { getSwatch, loadAccessibility } from "../utils/palette";
+
+// Resolves color keys against the player's accessibility settings, read once
+// per mount so a game never changes colors mid-level
+export const usePalette = (): ((key: ColorKey) => Swatch) => {
+  const [settings] = useState(loadAccessibility);
+  return (key) => getSwatch(settings, key);
+};
@@ -0,0 +1,13 @@
+import { useState } from "react";
+
+// A value created once per key, e.g. a fresh input channel for each level.
+// Unlike useMemo this is a guarantee: it changes exactly when the key does.
+export const usePerKey = <T>(key: string, create: () => T): T => {
+  const [entry, setEntry] = useState(() => ({ key, value: create() }));
+  if (entry.key === key) return entry.value;
+
+  // Adjusting state during render: React re-renders before committing
+  const next = { key, value: create() };
+  setEntry(next);
+  return next.value;
+};
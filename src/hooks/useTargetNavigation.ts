@@ -0,0 +1,65 @@
+import { CSSProperties, useEffect, useRef, useState } from "react";
+import { ControlChannel, ControlDirection } from "../types/game.types";
+import { tokens } from "../theme/theme";
+
+interface TargetNavigationOptions {
+  count: number;
+  columns: number;
+  select: (target: number) => void; // from useMicrogameInput
+  // Directions that pick a target outright instead of moving focus,
+  // e.g. DirectionMatch's arrows
+  directTargets?: Partial<Record<ControlDirection, number>>;
+}
+
+const STEPS: Record<ControlDirection, (columns: number) => number> = {
+  up: (columns) => -columns,
+  down: (columns) => columns,
+  left: () => -1,
+  right: () => 1,
+};
+
+// Maps control actions onto a game's grid of targets. Returns the target
+// with controller focus, or null until the player first navigates so mouse
+// and touch players never see the indicator.
+export const useTargetNavigation = (
+  controls: ControlChannel,
+  options: TargetNavigationOptions
+): number | null => {
+  const [focused, setFocused] = useState<number | null>(null);
+  const optionsRef = useRef(options);
+  const focusedRef = useRef(focused);
+
+  useEffect(() => {
+    optionsRef.current = options;
+    focusedRef.current = focused;
+  });
+
+  useEffect(
+    () =>
+      controls.subscribe((action) => {
+        const { count, columns, select, directTargets } = optionsRef.current;
+        const current = focusedRef.current;
+
+        if (action.type === "target") {
+          if (action.index < count) select(action.index);
+        } else if (action.type === "select") {
+          if (current !== null) select(current);
+        } else if (directTargets?.[action.direction] !== undefined) {
+          select(directTargets[action.direction]!);
+        } else {
+          const next =
+            current === null ? 0 : current + STEPS[action.direction](columns);
+          if (next >= 0 && next < count) {
+            focusedRef.current = next;
+            setFocused(next);
+          }
+        }
+      }),
+    [controls]
+  );
+
+  return focused;
+};
+
+export const getFocusStyle = (isFocused: boolean): CSSProperties =>
+  isFocused ? { outline: `4px solid ${tokens.color.primary}`, outlineOffset: "4px" } : {};
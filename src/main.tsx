@@ -1,7 +1,13 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
+import './theme/feedback.css'
 import App from './App.tsx'
+import { initTheme } from './theme/theme'
+import { initTelemetry } from './utils/telemetry'
+
+initTheme()
+initTelemetry()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
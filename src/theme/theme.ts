@@ -0,0 +1,262 @@
+import {
+  MotionPreference,
+  ThemeName,
+  ThemePreference,
+} from "../types/game.types";
+import { readJson, writeJson } from "../utils/storage";
+
+const STORAGE_KEY = "microgames.theme";
+const MOTION_STORAGE_KEY = "microgames.motion";
+
+interface ThemeValues {
+  color: {
+    background: string; // page
+    text: string; // page
+    textMuted: string;
+    surface: string; // cards, game tiles
+    surfaceMuted: string;
+    surfaceText: string;
+    border: string;
+    outline: string; // strong edge around game tiles
+    primary: string;
+    primaryStrong: string;
+    onPrimary: string; // text on primary/success/danger fills
+    success: string;
+    danger: string;
+    warning: string;
+    timedOut: string; // levels whose time limit ran out
+    highlight: string; // gold: first place, new personal best
+    accent: string;
+    skip: string;
+    skipHover: string;
+    overlay: string;
+    overlayText: string; // on the overlay, which stays dark in every theme
+    overlayTextMuted: string;
+  };
+  shadow: {
+    raised: string;
+    subtle: string;
+    glow: string; // a lit button, e.g. Sequence Memory's flash
+    text: string; // emphasized words on the page
+    textOnFill: string; // white labels on colored fills
+    symbol: string; // swatch symbols, legible on any fill
+  };
+}
+
+const LIGHT: ThemeValues = {
+  color: {
+    background: "#ffffff",
+    text: "#213547",
+    textMuted: "#888",
+    surface: "#ffffff",
+    surfaceMuted: "#f5f5f5",
+    surfaceText: "#333",
+    border: "#E0E0E0",
+    outline: "#333",
+    primary: "#2196F3",
+    primaryStrong: "#1976D2",
+    onPrimary: "white",
+    success: "#4CAF50",
+    danger: "#F44336",
+    warning: "#FF9800",
+    timedOut: "#8D6E63",
+    highlight: "#FFC107",
+    accent: "#9C27B0",
+    skip: "#FF6B6B",
+    skipHover: "#FF5252",
+    overlay: "rgba(0, 0, 0, 0.85)",
+    overlayText: "#ffffff",
+    overlayTextMuted: "#cccccc",
+  },
+  shadow: {
+    raised: "0 4px 8px rgba(0,0,0,0.2)",
+    subtle: "0 2px 4px rgba(0,0,0,0.1)",
+    glow: "0 0 20px rgba(255,255,255,0.5)",
+    text: "1px 1px 2px rgba(0,0,0,0.3)",
+    textOnFill: "1px 1px 2px rgba(0,0,0,0.5)",
+    symbol: "0 0 3px #000, 0 0 3px #000",
+  },
+};
+
+const DARK: ThemeValues = {
+  color: {
+    background: "#242424",
+    text: "rgba(255, 255, 255, 0.87)",
+    textMuted: "#9e9e9e",
+    surface: "#2f2f2f",
+    surfaceMuted: "#3a3a3a",
+    surfaceText: "#eeeeee",
+    border: "#555",
+    outline: "#bdbdbd",
+    primary: "#42A5F5",
+    primaryStrong: "#90CAF9",
+    onPrimary: "#111",
+    success: "#66BB6A",
+    danger: "#EF5350",
+    warning: "#FFA726",
+    timedOut: "#A1887F",
+    highlight: "#FFD54F",
+    accent: "#BA68C8",
+    skip: "#FF7B7B",
+    skipHover: "#FF5252",
+    overlay: "rgba(0, 0, 0, 0.9)",
+    overlayText: "#ffffff",
+    overlayTextMuted: "#cccccc",
+  },
+  shadow: {
+    raised: "0 4px 8px rgba(0,0,0,0.6)",
+    subtle: "0 2px 4px rgba(0,0,0,0.4)",
+    glow: "0 0 20px rgba(255,255,255,0.6)",
+    text: "1px 1px 2px rgba(0,0,0,0.6)",
+    textOnFill: "1px 1px 2px rgba(0,0,0,0.7)",
+    symbol: "0 0 3px #000, 0 0 3px #000",
+  },
+};
+
+// Pure black and white with saturated status colors; borders do the work
+// shadows do elsewhere
+const HIGH_CONTRAST: ThemeValues = {
+  color: {
+    background: "#000000",
+    text: "#ffffff",
+    textMuted: "#e0e0e0",
+    surface: "#000000",
+    surfaceMuted: "#1a1a1a",
+    surfaceText: "#ffffff",
+    border: "#ffffff",
+    outline: "#ffffff",
+    primary: "#FFFF00",
+    primaryStrong: "#FFFF00",
+    onPrimary: "#000000",
+    success: "#00FF66",
+    danger: "#FF3B3B",
+    warning: "#FFA500",
+    timedOut: "#00FFFF",
+    highlight: "#FFFF00",
+    accent: "#FF66FF",
+    skip: "#FF3B3B",
+    skipHover: "#FF0000",
+    overlay: "rgba(0, 0, 0, 0.95)",
+    overlayText: "#ffffff",
+    overlayTextMuted: "#e0e0e0",
+  },
+  shadow: {
+    raised: "0 0 0 2px #ffffff",
+    subtle: "0 0 0 1px #ffffff",
+    glow: "0 0 0 4px #ffffff",
+    text: "none",
+    textOnFill: "0 0 2px #000, 0 0 2px #000",
+    symbol: "0 0 3px #000, 0 0 3px #000",
+  },
+};
+
+const THEMES: Record<ThemeName, ThemeValues> = {
+  light: LIGHT,
+  dark: DARK,
+  "high-contrast": HIGH_CONTRAST,
+};
+
+export const THEME_LABELS: Record<ThemePreference, string> = {
+  system: "Match system",
+  light: "Light",
+  dark: "Dark",
+  "high-contrast": "High contrast",
+};
+
+const toVarName = (group: string, key: string): string =>
+  `--${group}-${key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)}`;
+
+type Tokens = { [G in keyof ThemeValues]: Record<keyof ThemeValues[G], string> };
+
+// Design tokens for inline styles, e.g. `color: tokens.color.success`. Each
+// resolves to a CSS variable, so switching themes needs no re-render.
+export const tokens = Object.fromEntries(
+  Object.entries(LIGHT).map(([group, values]) => [
+    group,
+    Object.fromEntries(
+      Object.keys(values).map((key) => [key, `var(${toVarName(group, key)})`])
+    ),
+  ])
+) as Tokens;
+
+// Canvas drawing can't use var(); read the value the active theme applied
+export const resolveToken = (token: string): string => {
+  const name = token.match(/^var\((--[\w-]+)\)$/)?.[1];
+  return name
+    ? getComputedStyle(document.documentElement).getPropertyValue(name).trim()
+    : token;
+};
+
+export const loadThemePreference = (): ThemePreference => {
+  const saved = readJson<string>(STORAGE_KEY, "system");
+  return saved in THEME_LABELS ? (saved as ThemePreference) : "system";
+};
+
+export const saveThemePreference = (preference: ThemePreference): void => {
+  writeJson(STORAGE_KEY, preference);
+};
+
+const darkQuery = (): MediaQueryList | null =>
+  typeof window.matchMedia === "function"
+    ? window.matchMedia("(prefers-color-scheme: dark)")
+    : null;
+
+export const resolveTheme = (preference: ThemePreference): ThemeName => {
+  if (preference !== "system") return preference;
+  return darkQuery()?.matches ? "dark" : "light";
+};
+
+export const applyTheme = (preference: ThemePreference): void => {
+  const name = resolveTheme(preference);
+  const root = document.documentElement;
+
+  Object.entries(THEMES[name]).forEach(([group, values]) => {
+    Object.entries(values as Record<string, string>).forEach(([key, value]) => {
+      root.style.setProperty(toVarName(group, key), value);
+    });
+  });
+  root.dataset.theme = name;
+  root.style.colorScheme = name === "light" ? "light" : "dark";
+};
+
+export const MOTION_LABELS: Record<MotionPreference, string> = {
+  system: "Match system",
+  reduced: "Reduced",
+  full: "Full",
+};
+
+export const loadMotionPreference = (): MotionPreference => {
+  const saved = readJson<string>(MOTION_STORAGE_KEY, "system");
+  return saved in MOTION_LABELS ? (saved as MotionPreference) : "system";
+};
+
+export const saveMotionPreference = (preference: MotionPreference): void => {
+  writeJson(MOTION_STORAGE_KEY, preference);
+};
+
+const reducedMotionQuery = (): MediaQueryList | null =>
+  typeof window.matchMedia === "function"
+    ? window.matchMedia("(prefers-reduced-motion: reduce)")
+    : null;
+
+// feedback.css swaps movement for fades under data-motion="reduced"
+export const applyMotion = (preference: MotionPreference): void => {
+  const reduced =
+    preference === "reduced" ||
+    (preference === "system" && reducedMotionQuery()?.matches === true);
+  document.documentElement.dataset.motion = reduced ? "reduced" : "full";
+};
+
+// Applies the saved theme and motion setting and keeps "system" in step
+// with the OS settings
+export const initTheme = (): void => {
+  applyTheme(loadThemePreference());
+  darkQuery()?.addEventListener("change", () => {
+    if (loadThemePreference() === "system") applyTheme("system");
+  });
+
+  applyMotion(loadMotionPreference());
+  reducedMotionQuery()?.addEventListener("change", () => {
+    if (loadMotionPreference() === "system") applyMotion("system");
+  });
+};
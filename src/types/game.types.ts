@@ -1,14 +1,192 @@
-export type GameState = 'idle' | 'playing' | 'completed';
+import { ComponentType } from 'react';
+
+// A run goes idle → countdown → playing ⇄ transition → completed
+export type GameState =
+  | 'idle'
+  | 'countdown' // first level's intro; the clock hasn't started
+  | 'playing'
+  | 'transition' // next level's intro; currentLevel is already that level
+  | 'completed';
+
+export type GameMode = 'standard' | 'daily' | 'endless';
+
+export type DifficultyTier = 'easy' | 'normal' | 'hard';
+
+// Fixed tiers play every level at that tier; adaptive starts easy and
+// steps up after each completed level and down after each skip or time-out
+export type DifficultyMode = DifficultyTier | 'adaptive';
+
+export interface ColorMatchDifficulty {
+  optionCount: number;
+}
+
+export interface SequenceMemoryDifficulty {
+  sequenceLength: number;
+  flashMs: number;
+  gapMs: number;
+}
+
+export interface SpeedTapDifficulty {
+  requiredTaps: number;
+  switchEvery: number; // target changes after this many correct taps
+}
+
+export interface DirectionMatchDifficulty {
+  arrowCount: number; // 8 adds diagonals
+}
+
+export interface OddOneOutDifficulty {
+  itemCount: number;
+  subtle: boolean; // smaller differences between odd and normal items
+}
+
+export interface GameRules {
+  skipPenaltyMs: number;
+  skipDelayMs: number; // how long before the skip button appears
+  allowSkip: boolean;
+  rounds: number; // levels per run, cycling through registered games
+  levelTimeLimitMs: number | null; // null for no limit; expiry is a time-out
+  timeoutPenaltyMs: number; // added when a level's time limit runs out
+  mistakePenaltyMs: number; // added per wrong input, 0 to disable
+  introClock: IntroClock;
+}
+
+// Whether the run clock keeps going while a level's intro card is up
+export type IntroClock = 'paused' | 'running';
+
+// How a level ended; pending levels haven't been finished
+export type LevelOutcome = 'completed' | 'skipped' | 'timed-out';
+export type LevelStatus = LevelOutcome | 'pending';
 
 export interface LevelResult {
+  gameId: string;
+  difficulty: DifficultyTier;
   completed: boolean;
   skipped: boolean;
-  timeSpent: number;
+  timedOut: boolean; // the level's time limit ran out
+  timeSpent: number; // endedAt - startedAt, excluding penalties
+  startedAt: number | null; // ms since run start, null until reached
+  endedAt: number | null; // ms since run start, null until finished
+  penaltyTime: number; // penalties incurred on this level
+  hits: number; // correct inputs
+  mistakes: number; // wrong inputs
+}
+
+export interface LevelSplit {
+  gameId: string;
+  segment: number; // this level's time including its penalties
+  cumulative: number; // run clock (with penalties) when the level ended
+}
+
+export interface Rng {
+  readonly seed: number;
+  next: () => number; // [0, 1)
+  int: (maxExclusive: number) => number;
+  pick: <T>(items: readonly T[]) => T;
+  shuffle: <T>(items: readonly T[]) => T[];
+  fork: (label: string | number) => Rng; // independent child stream
+}
+
+export type TimerId = number;
+
+// Pausable timers: while paused, now() stands still and pending callbacks
+// keep their remaining time until resume()
+export interface Scheduler {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => TimerId;
+  clearTimeout: (id: TimerId) => void;
+  delay: (ms: number) => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+}
+
+export type SoundCue = 'correct' | 'wrong' | 'level' | 'fanfare';
+
+export interface AudioSettings {
+  muted: boolean;
+  volume: number; // 0-1
+  audioOnlySequence: boolean; // SequenceMemory plays tones without flashes
+}
+
+// Synthesizes every sound with Web Audio; silently does nothing when muted
+// or when the browser has no audio support
+export interface SoundManager {
+  play: (cue: SoundCue) => void;
+  tone: (frequency: number, durationMs: number) => void;
+  getSettings: () => AudioSettings;
+  updateSettings: (changes: Partial<AudioSettings>) => AudioSettings;
+  isAudible: () => boolean;
+}
+
+// The underlying time source; real by default, replaceable for replays/tests
+export interface Clock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export interface Channel<T> {
+  emit: (value: T) => void;
+  subscribe: (listener: (value: T) => void) => () => void;
+}
+
+// Every selection a player makes (tap, key, gamepad, replayed input) is
+// emitted here as the index of the target in the game's grid
+export type InputChannel = Channel<number>;
+
+export type ControlDirection = 'up' | 'down' | 'left' | 'right';
+
+// Device-independent actions from the keyboard or a gamepad
+export type ControlAction =
+  | { type: 'move'; direction: ControlDirection }
+  | { type: 'select' }
+  | { type: 'target'; index: number }; // number keys, 0-based
+
+export type ControlChannel = Channel<ControlAction>;
+
+export type BindableAction = ControlDirection | 'select';
+
+export interface InputBindings {
+  keys: Record<BindableAction, string[]>; // KeyboardEvent.key, letters lower-cased
+  gamepad: Record<BindableAction, number[]>; // standard-mapping button indices
+}
+
+export type EngineStatus = 'playing' | 'won';
+
+export type EngineOutcome = 'hit' | 'mistake' | 'ignored';
+
+export interface EngineStep<S> {
+  state: S;
+  outcome: EngineOutcome;
+}
+
+// A microgame's rules with no React, timers or audio. All randomness is
+// drawn in init from the level's seed, so apply is a pure function.
+export interface MicrogameEngine<S> {
+  init: (seed: number, difficulty: DifficultyTier) => S;
+  apply: (state: S, input: number) => EngineStep<S>;
+  status: (state: S) => EngineStatus;
 }
 
 export interface MicrogameProps {
   onComplete: () => void;
+  onHit: () => void; // call for every correct input
+  onMistake: () => void; // call for every wrong input
   level: number;
+  rng: Rng; // all puzzle randomness must come from here
+  difficulty: DifficultyTier;
+  scheduler: Scheduler; // use instead of setTimeout so pausing freezes the game
+  input: InputChannel; // route taps through useMicrogameInput so they can be recorded
+  controls: ControlChannel; // keyboard/gamepad actions, see useTargetNavigation
+}
+
+export interface MicrogameDefinition {
+  id: string;
+  name: string;
+  instructions: string;
+  icon: string; // emoji shown in menus and results
+  component: ComponentType<MicrogameProps>;
 }
 
 export interface ProgressTrackerProps {
@@ -18,25 +196,469 @@ export interface ProgressTrackerProps {
 
 export interface ResultsScreenProps {
   totalTime: number;
+  seed: number;
+  mode: GameMode;
+  rules: GameRules; // the rules this run was played under
+  dayNumber: number | null; // set for daily challenge runs
+  personalBest: RunRecord | null | undefined; // undefined while loading, null if first run
   levelResults: LevelResult[];
+  resumed: boolean;
   onRestart: () => void;
 }
 
 export interface TimerProps {
   startTime: number;
   additionalTime: number; // penalties
+  now: () => number; // run clock, stands still while paused
+}
+
+export interface LivesDisplayProps {
+  lives: number;
+  maxLives: number;
+  round: number;
+}
+
+export interface CountdownBarProps {
+  startedAt: number; // scheduler time the countdown began
+  durationMs: number;
+  now: () => number;
+}
+
+export interface LevelIntroProps {
+  game: MicrogameDefinition;
+  level: number;
+  levelCount: number | null; // null in endless runs
+  startedAt: number; // scheduler time the intro began
+  durationMs: number;
+  now: () => number;
+}
+
+export interface PauseOverlayProps {
+  onResume: () => void;
+}
+
+export interface SplitDeltaProps {
+  delta: number | null; // ms ahead (negative) or behind the personal best
 }
 
 export interface SkipButtonProps {
   onSkip: () => void;
   visible: boolean;
+  penaltyMs: number;
+}
+
+export type ColorVisionMode =
+  | 'standard'
+  | 'protanopia'
+  | 'deuteranopia'
+  | 'tritanopia';
+
+// Games refer to colors by key; the active palette decides what's drawn
+export type ColorKey =
+  | 'red'
+  | 'blue'
+  | 'green'
+  | 'orange'
+  | 'purple'
+  | 'pink'
+  | 'teal'
+  | 'deep-orange'
+  | 'light-blue';
+
+export interface Swatch {
+  hex: string;
+  name: string; // human-readable, used in labels instead of the hex code
+  symbol: string | null; // shown on the swatch when symbols are enabled
+}
+
+export interface SwatchSymbolProps {
+  swatch: Swatch;
+  size?: string; // font-size of the symbol
+}
+
+export interface AccessibilitySettings {
+  colorVision: ColorVisionMode;
+  symbols: boolean;
+}
+
+export type ThemeName = 'light' | 'dark' | 'high-contrast';
+
+export type ThemePreference = ThemeName | 'system';
+
+// 'system' follows prefers-reduced-motion
+export type MotionPreference = 'system' | 'reduced' | 'full';
+
+export interface SettingsScreenProps {
+  onBack: () => void;
 }
 
 export interface GameContainerState {
   gameState: GameState;
-  currentLevel: number; // 1-5
+  currentLevel: number; // 1-based index into levelResults
   startTime: number | null; // timestamp
   totalTime: number; // milliseconds
-  levelResults: LevelResult[]; // array of 5 results
+  levelResults: LevelResult[]; // one result per level, in play order
   showSkipButton: boolean;
+  isPaused: boolean;
+  rules: GameRules; // fixed for the duration of a run
+  seed: number; // run seed, each level plays rng.fork(levelIndex)
+  mode: GameMode;
+  difficultyMode: DifficultyMode;
+  dailyKey: string | null; // daily challenge date the run started on
+  dayNumber: number | null;
+  lives: number | null; // endless mode only
+  phaseStartedAt: number | null; // scheduler time the current gameState began
+  resumedFrom: number | null; // run clock a resumed run picked up from; null if never resumed
+}
+
+// A run in progress, saved at level boundaries and pauses so a reload can
+// pick it up again. The active level restarts with the same puzzle, with
+// its elapsed time carried over.
+export interface RunCheckpoint {
+  version: 1;
+  savedAt: string; // ISO timestamp
+  seed: number;
+  mode: GameMode;
+  difficultyMode: DifficultyMode;
+  rules: GameRules;
+  dailyKey: string | null;
+  dayNumber: number | null;
+  currentLevel: number;
+  levelResults: LevelResult[];
+  totalTime: number; // penalties charged so far
+  levelElapsed: number; // ms already played on currentLevel
+  lives: number | null;
+  replayInputs: ReplayInput[][]; // finished levels only
+}
+
+// Everything a run needs to start; levelResults are built by the reducer
+export interface RunSetup {
+  seed: number;
+  gameIds: string[]; // play order; ignored in endless, which draws rounds
+  mode: GameMode;
+  difficultyMode: DifficultyMode;
+  rules: GameRules;
+  dailyKey: string | null;
+  dayNumber: number | null;
+}
+
+export type GameAction =
+  | { type: 'start'; setup: RunSetup }
+  | { type: 'resume'; checkpoint: RunCheckpoint }
+  | { type: 'begin-level'; level: number }
+  | { type: 'show-skip'; level: number }
+  | { type: 'input'; level: number; correct: boolean }
+  | { type: 'finish-level'; level: number; outcome: LevelOutcome }
+  | { type: 'pause'; paused: boolean }
+  | { type: 'reset' }
+  | { type: 'set-difficulty-mode'; difficultyMode: DifficultyMode };
+
+// What the reducer may read besides the state and action. Actions that
+// target a level are dropped once that level is over, so a late timer or
+// onComplete can't land twice.
+export interface GameEnv {
+  now: number; // scheduler time
+  gameIds: string[]; // registered microgames, for endless rounds
+}
+
+export interface ScheduledAction {
+  delayMs: number;
+  action: GameAction;
+}
+
+// Runs the reducer and owns every run timer. The timers for a phase are
+// armed when it begins and cleared when it ends; pausing the scheduler
+// freezes them.
+export interface GameMachine {
+  getState: () => GameContainerState;
+  dispatch: (action: GameAction) => void;
+  subscribe: (listener: () => void) => () => void;
+  dispose: () => void;
+}
+
+export type ReplayInput = [time: number, target: number]; // ms since level start
+
+export interface ReplayLevel {
+  gameId: string;
+  difficulty: DifficultyTier;
+  outcome: LevelOutcome;
+  duration: number; // ms the level lasted in the original run
+  inputs: ReplayInput[];
+}
+
+export interface Replay {
+  version: 1;
+  seed: number;
+  rules: GameRules;
+  levels: ReplayLevel[];
+}
+
+export interface PracticeAttempt {
+  difficulty: DifficultyTier;
+  solveTime: number; // ms from mount to onComplete
+  mistakes: number;
+}
+
+export interface PracticeStats {
+  solved: number;
+  averageTime: number | null;
+  bestTime: number | null;
+  averageMistakes: number | null;
+}
+
+export interface PracticeModeProps {
+  onBack: () => void;
+}
+
+export type MatchVariant = 'hot-seat' | 'split-screen' | 'online';
+
+// Shared by both players so they race the same set of puzzles
+export interface MatchSetup {
+  seed: number;
+  gameIds: string[];
+  difficulty: DifficultyTier;
+  rules: GameRules;
+}
+
+export interface MatchSlot {
+  setup: MatchSetup;
+  playerName: string;
+  shared: boolean; // split-screen: no device controls or solo pause button
+}
+
+export interface MatchPlayerResult {
+  name: string;
+  finished: boolean;
+  totalTime: number; // final time once finished, penalties so far otherwise
+  levelResults: LevelResult[];
+}
+
+export interface GameContainerProps {
+  match?: MatchSlot; // set when a local match embeds the container
+  onMatchUpdate?: (result: MatchPlayerResult) => void;
+  scheduler?: Scheduler; // run clock and timers; a fake clock drives tests
+}
+
+export interface LocalMatchProps {
+  onBack: () => void;
+}
+
+export interface MatchResultsProps {
+  variant: MatchVariant;
+  players: MatchPlayerResult[];
+  onRematch?: () => void; // online races have no rematch
+  onExit: () => void;
+}
+
+// Online race protocol, shared by the client and server/relay.ts. Bump
+// RACE_PROTOCOL_VERSION (utils/raceProtocol.ts) on any breaking change.
+export type RaceRoomState = 'lobby' | 'racing' | 'finished';
+
+export interface RacePlayer {
+  id: string;
+  name: string;
+  connected: boolean;
+  lateJoin: boolean; // joined after the race started, on their own clock
+  currentLevel: number;
+  levelResults: LevelResult[];
+  finished: boolean;
+  totalTime: number | null; // set once finished
+}
+
+export interface RaceRoom {
+  code: string;
+  hostId: string;
+  state: RaceRoomState;
+  setup: MatchSetup;
+  players: RacePlayer[];
+}
+
+export type RaceClientMessage =
+  | {
+      type: 'join';
+      version: number;
+      room: string;
+      name: string;
+      setup: MatchSetup; // used only if the join creates the room
+      playerId?: string; // rejoin after a dropped connection
+    }
+  | { type: 'start' }
+  | { type: 'progress'; currentLevel: number; levelResults: LevelResult[] }
+  | { type: 'finish'; totalTime: number; levelResults: LevelResult[] };
+
+export type RaceErrorCode =
+  | 'version-mismatch'
+  | 'bad-message'
+  | 'room-full'
+  | 'not-host'
+  | 'not-joined';
+
+export type RaceServerMessage =
+  | { type: 'welcome'; version: number; playerId: string; room: RaceRoom }
+  | { type: 'room'; room: RaceRoom }
+  | { type: 'error'; code: RaceErrorCode; message: string };
+
+export type RaceConnectionState =
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'closed';
+
+export interface RaceClient {
+  send: (message: RaceClientMessage) => void;
+  close: () => void;
+}
+
+export interface RaceClientHandlers {
+  onMessage: (message: RaceServerMessage) => void;
+  onStateChange: (state: RaceConnectionState) => void;
+  onOpen: () => void; // after every (re)connect, so the caller can rejoin
+}
+
+export interface OnlineRaceProps {
+  onBack: () => void;
+}
+
+export interface ReplayViewerProps {
+  replay: Replay;
+  onExit: () => void;
+}
+
+export interface RunRecord {
+  id: string;
+  date: string; // ISO timestamp of when the run finished
+  mode: GameMode;
+  difficultyMode: DifficultyMode;
+  seed: number;
+  rules?: GameRules; // missing on runs saved before rules were configurable
+  totalTime: number;
+  levelResults: LevelResult[];
+  replay?: string; // encodeReplay() output
+  resumed?: boolean; // continued after a reload; missing on older runs
+}
+
+// Downloadable JSON export of a finished run
+export interface RunExport {
+  version: 1;
+  exportedAt: string; // ISO timestamp
+  seed: number;
+  mode: GameMode;
+  rules: GameRules;
+  totalTime: number;
+  levelResults: LevelResult[];
+}
+
+export interface ResultCardLevel {
+  label: string; // e.g. "🎨 Color Match"
+  status: LevelStatus;
+  split: string | null; // formatted cumulative time
+}
+
+export interface ResultCard {
+  title: string;
+  headline: string; // total time, or rounds in endless
+  subtitle: string | null;
+  levels: ResultCardLevel[];
+  footer: string;
+}
+
+// What a run is ranked against: runs with the same mode, difficulty and rules
+export type RunCategory = Pick<RunRecord, 'mode' | 'difficultyMode' | 'rules'>;
+
+export interface RunStore {
+  list: () => Promise<RunRecord[]>; // newest first
+  add: (record: RunRecord) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface LeaderboardProps {
+  onBack: () => void;
+  onWatchReplay: (replay: Replay) => void;
+}
+
+export interface RunHistoryProps {
+  onBack: () => void;
+  onWatchReplay: (replay: Replay) => void;
+}
+
+export interface TelemetryEventMap {
+  game_start: {
+    seed: number;
+    mode: GameMode;
+    difficultyMode: DifficultyMode;
+    levels: number; // 0 for endless, which grows as it goes
+  };
+  level_start: { level: number; gameId: string; difficulty: DifficultyTier };
+  level_complete: {
+    level: number;
+    gameId: string;
+    timeSpent: number;
+    mistakes: number;
+  };
+  skip: { level: number; gameId: string; timeSpent: number; penalty: number };
+  timeout: {
+    level: number;
+    gameId: string;
+    timeSpent: number;
+    penalty: number;
+  };
+  mistake: { level: number; gameId: string; target: number | null };
+  pause: { level: number; paused: boolean };
+  run_complete: {
+    seed: number;
+    mode: GameMode;
+    totalTime: number;
+    completed: number;
+    skipped: number;
+    timedOut: number;
+    mistakes: number;
+  };
+}
+
+export type TelemetryEventName = keyof TelemetryEventMap;
+
+export type TelemetryEventInput = {
+  [N in TelemetryEventName]: { name: N; data: TelemetryEventMap[N] };
+}[TelemetryEventName];
+
+export type TelemetryEvent = TelemetryEventInput & {
+  id: number; // increasing within a session
+  sessionId: string; // one per page load
+  timestamp: number; // Date.now()
+};
+
+export interface TelemetrySink {
+  name: string;
+  handle: (event: TelemetryEvent) => void;
+  flush?: () => Promise<void>;
+  describe?: () => string; // one-line status for the debug panel
+}
+
+export interface TelemetryBus {
+  emit: (event: TelemetryEventInput) => void;
+  addSink: (sink: TelemetrySink) => () => void;
+  getSinks: () => TelemetrySink[];
+  subscribe: (listener: (event: TelemetryEvent) => void) => () => void;
+  recent: () => TelemetryEvent[]; // newest last
+  clearRecent: () => void;
+  flush: () => Promise<void>;
+}
+
+export interface HttpSinkOptions {
+  url: string;
+  batchSize?: number;
+  flushIntervalMs?: number;
+  maxRetries?: number; // per batch, before waiting for the next interval
+  retryBaseMs?: number;
+  maxQueued?: number; // oldest events are dropped past this
+  storageKey?: string; // where the offline queue is persisted
+  fetch?: typeof fetch;
+}
+
+export interface DailyAttempt {
+  dailyKey: string; // local YYYY-MM-DD
+  dayNumber: number;
+  finished: boolean; // false while in progress or if abandoned
+  totalTime: number | null;
+  levelResults: LevelResult[];
 }
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { AudioSettings, SoundCue, SoundManager } from "../types/game.types";
+import { readJson, writeJson } from "./storage";
+
+const STORAGE_KEY = "microgames.audio";
+
+export const DEFAULT_AUDIO: AudioSettings = {
+  muted: false,
+  volume: 0.5,
+  audioOnlySequence: false,
+};
+
+// Full volume is kept well below clipping; oscillators are loud
+const PEAK_GAIN = 0.3;
+
+interface Note {
+  frequency: number;
+  durationMs: number;
+  delayMs?: number;
+  type?: OscillatorType;
+}
+
+const CUES: Record<SoundCue, Note[]> = {
+  correct: [{ frequency: 880, durationMs: 80, type: "triangle" }],
+  wrong: [
+    { frequency: 220, durationMs: 120, type: "square" },
+    { frequency: 165, durationMs: 160, delayMs: 100, type: "square" },
+  ],
+  level: [
+    { frequency: 523, durationMs: 90, type: "triangle" },
+    { frequency: 784, durationMs: 140, delayMs: 90, type: "triangle" },
+  ],
+  // C major arpeggio up to the octave
+  fanfare: [
+    { frequency: 523, durationMs: 140 },
+    { frequency: 659, durationMs: 140, delayMs: 140 },
+    { frequency: 784, durationMs: 140, delayMs: 280 },
+    { frequency: 1047, durationMs: 500, delayMs: 420 },
+  ],
+};
+
+export const normalizeAudioSettings = (
+  settings: Partial<AudioSettings>
+): AudioSettings => {
+  const merged = { ...DEFAULT_AUDIO, ...settings };
+  return {
+    muted: merged.muted === true,
+    volume: Number.isFinite(merged.volume)
+      ? Math.min(1, Math.max(0, merged.volume))
+      : DEFAULT_AUDIO.volume,
+    audioOnlySequence: merged.audioOnlySequence === true,
+  };
+};
+
+export const createSoundManager = (): SoundManager => {
+  let settings = normalizeAudioSettings(
+    readJson<Partial<AudioSettings>>(STORAGE_KEY, {})
+  );
+  let context: AudioContext | null = null;
+
+  const isAudible = (): boolean => !settings.muted && settings.volume > 0;
+
+  // Created lazily: browsers only allow audio after a user gesture
+  const getContext = (): AudioContext | null => {
+    if (!context) {
+      if (typeof AudioContext === "undefined") return null;
+      context = new AudioContext();
+    }
+    if (context.state === "suspended") {
+      context.resume().catch(() => {});
+    }
+    return context;
+  };
+
+  const playNote = ({
+    frequency,
+    durationMs,
+    delayMs = 0,
+    type = "sine",
+  }: Note): void => {
+    if (!isAudible()) return;
+    const ctx = getContext();
+    if (!ctx) return;
+
+    const start = ctx.currentTime + delayMs / 1000;
+    const end = start + durationMs / 1000;
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    oscillator.type = type;
+    oscillator.frequency.value = frequency;
+    // Short attack and exponential release avoid clicks
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(settings.volume * PEAK_GAIN, start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, end);
+
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start);
+    oscillator.stop(end + 0.05);
+  };
+
+  return {
+    play: (cue) => CUES[cue].forEach(playNote),
+    tone: (frequency, durationMs) => playNote({ frequency, durationMs }),
+    getSettings: () => settings,
+    updateSettings: (changes) => {
+      settings = normalizeAudioSettings({ ...settings, ...changes });
+      writeJson(STORAGE_KEY, settings);
+      return settings;
+    },
+    isAudible,
+  };
+};
+
+export const sound = createSoundManager();
@@ -0,0 +1,155 @@
+import {
+  BindableAction,
+  ControlAction,
+  InputBindings,
+} from "../types/game.types";
+import { readJson, writeJson } from "./storage";
+
+const STORAGE_KEY = "microgames.inputBindings";
+
+export const BINDABLE_ACTIONS: BindableAction[] = [
+  "up",
+  "down",
+  "left",
+  "right",
+  "select",
+];
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keys: {
+    up: ["arrowup", "w"],
+    down: ["arrowdown", "s"],
+    left: ["arrowleft", "a"],
+    right: ["arrowright", "d"],
+    select: ["enter", " "],
+  },
+  // Standard mapping: d-pad 12-15, bottom face button (A / Cross) 0
+  gamepad: {
+    up: [12],
+    down: [13],
+    left: [14],
+    right: [15],
+    select: [0],
+  },
+};
+
+// The left stick counts as the d-pad once pushed past this
+const STICK_THRESHOLD = 0.5;
+
+export const normalizeKey = (key: string): string => key.toLowerCase();
+
+export const formatKey = (key: string): string => {
+  if (key === " ") return "Space";
+  if (key.startsWith("arrow")) return `Arrow ${key.slice(5)}`;
+  return key.length === 1 ? key.toUpperCase() : key[0].toUpperCase() + key.slice(1);
+};
+
+// Fills in actions missing from older saves
+export const normalizeBindings = (
+  bindings: Partial<InputBindings>
+): InputBindings => {
+  const merged = (
+    saved: Partial<Record<BindableAction, unknown>> | undefined,
+    defaults: Record<BindableAction, string[] | number[]>
+  ) =>
+    Object.fromEntries(
+      BINDABLE_ACTIONS.map((action) => [
+        action,
+        Array.isArray(saved?.[action]) ? saved[action] : defaults[action],
+      ])
+    );
+
+  return {
+    keys: merged(bindings.keys, DEFAULT_BINDINGS.keys) as InputBindings["keys"],
+    gamepad: merged(
+      bindings.gamepad,
+      DEFAULT_BINDINGS.gamepad
+    ) as InputBindings["gamepad"],
+  };
+};
+
+export const loadBindings = (): InputBindings =>
+  normalizeBindings(readJson<Partial<InputBindings>>(STORAGE_KEY, {}));
+
+export const saveBindings = (bindings: InputBindings): void => {
+  writeJson(STORAGE_KEY, normalizeBindings(bindings));
+};
+
+const toAction = (action: BindableAction): ControlAction =>
+  action === "select" ? { type: "select" } : { type: "move", direction: action };
+
+// The number row picks targets directly: 1-9, then 0, - and = for 10-12,
+// which covers the largest grid (Odd One Out on hard)
+const TARGET_KEYS = "1234567890-=";
+
+export const isTargetKey = (key: string): boolean =>
+  key.length === 1 && TARGET_KEYS.includes(key);
+
+export const getKeyAction = (
+  bindings: InputBindings,
+  key: string
+): ControlAction | null => {
+  if (isTargetKey(key)) {
+    return { type: "target", index: TARGET_KEYS.indexOf(key) };
+  }
+
+  const normalized = normalizeKey(key);
+  const action = BINDABLE_ACTIONS.find((candidate) =>
+    bindings.keys[candidate].includes(normalized)
+  );
+  return action ? toAction(action) : null;
+};
+
+export const getGamepadAction = (
+  bindings: InputBindings,
+  button: number
+): ControlAction | null => {
+  const action = BINDABLE_ACTIONS.find((candidate) =>
+    bindings.gamepad[candidate].includes(button)
+  );
+  return action ? toAction(action) : null;
+};
+
+const getPressedButtons = (pad: Gamepad): Set<number> => {
+  const pressed = new Set<number>();
+  pad.buttons.forEach((button, index) => {
+    if (button.pressed) pressed.add(index);
+  });
+
+  const [x = 0, y = 0] = pad.axes;
+  if (y < -STICK_THRESHOLD) pressed.add(12);
+  if (y > STICK_THRESHOLD) pressed.add(13);
+  if (x < -STICK_THRESHOLD) pressed.add(14);
+  if (x > STICK_THRESHOLD) pressed.add(15);
+  return pressed;
+};
+
+// The Gamepad API has no events for buttons, so poll every frame and report
+// each button once when it goes down. Returns a function that stops polling.
+export const watchGamepadButtons = (
+  onPress: (button: number) => void
+): (() => void) => {
+  if (typeof navigator.getGamepads !== "function") return () => {};
+
+  const previous = new Map<number, Set<number>>();
+  let frame = 0;
+
+  const poll = (): void => {
+    for (const pad of navigator.getGamepads()) {
+      if (!pad) continue;
+      const pressed = getPressedButtons(pad);
+      const before = previous.get(pad.index);
+      // Buttons already held when polling starts don't count
+      if (before) {
+        pressed.forEach((button) => {
+          if (!before.has(button)) onPress(button);
+        });
+      }
+      previous.set(pad.index, pressed);
+    }
+    frame = requestAnimationFrame(poll);
+  };
+
+  frame = requestAnimationFrame(poll);
+  return () => cancelAnimationFrame(frame);
+};
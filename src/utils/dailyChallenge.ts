@@ -0,0 +1,56 @@
+import { DailyAttempt, LevelResult } from "../types/game.types";
+import { formatEmojiGrid } from "./export";
+import { createRng, hashSeed } from "./rng";
+import { readJson, writeJson } from "./storage";
+
+const STORAGE_KEY = "microgames.dailyAttempt";
+
+// Day 1 of the daily challenge
+const DAILY_EPOCH = new Date(2026, 0, 1);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Local calendar date, so the puzzle rolls over at the player's midnight
+export const getDailyKey = (date: Date = new Date()): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+export const getDayNumber = (date: Date = new Date()): number => {
+  // Compare calendar days at noon so DST shifts can't round the wrong way
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12);
+  const epoch = new Date(
+    DAILY_EPOCH.getFullYear(),
+    DAILY_EPOCH.getMonth(),
+    DAILY_EPOCH.getDate(),
+    12
+  );
+  return Math.round((day.getTime() - epoch.getTime()) / MS_PER_DAY) + 1;
+};
+
+export const getDailySeed = (dailyKey: string): number =>
+  hashSeed(`daily:${dailyKey}`);
+
+export const getDailyGameOrder = (seed: number, gameIds: string[]): string[] =>
+  createRng(seed).fork("order").shuffle(gameIds);
+
+// Only the most recent attempt matters: an older day never blocks today
+export const getDailyAttempt = (dailyKey: string): DailyAttempt | null => {
+  const attempt = readJson<DailyAttempt | null>(STORAGE_KEY, null);
+  return attempt && attempt.dailyKey === dailyKey ? attempt : null;
+};
+
+export const saveDailyAttempt = (attempt: DailyAttempt): void => {
+  writeJson(STORAGE_KEY, attempt);
+};
+
+// Spoiler-free: statuses in play order, no game names or puzzle details
+export const formatDailyShare = (
+  dayNumber: number,
+  formattedTime: string,
+  levelResults: LevelResult[]
+): string =>
+  `Microgames Daily #${dayNumber} ⏱ ${formattedTime}\n${formatEmojiGrid(
+    levelResults
+  )}`;
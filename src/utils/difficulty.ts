@@ -0,0 +1,27 @@
+import { DifficultyMode, DifficultyTier, LevelResult } from "../types/game.types";
+
+export const DIFFICULTY_TIERS: DifficultyTier[] = ["easy", "normal", "hard"];
+
+export const DIFFICULTY_MODES: DifficultyMode[] = [
+  ...DIFFICULTY_TIERS,
+  "adaptive",
+];
+
+export const getInitialDifficulty = (mode: DifficultyMode): DifficultyTier =>
+  mode === "adaptive" ? "easy" : mode;
+
+// Difficulty for the level after `previous`, given how that level went
+export const getNextDifficulty = (
+  mode: DifficultyMode,
+  previous: LevelResult
+): DifficultyTier => {
+  if (mode !== "adaptive") return mode;
+
+  const index = DIFFICULTY_TIERS.indexOf(previous.difficulty);
+  const step = previous.completed ? 1 : previous.skipped || previous.timedOut ? -1 : 0;
+  const next = Math.min(
+    DIFFICULTY_TIERS.length - 1,
+    Math.max(0, index + step)
+  );
+  return DIFFICULTY_TIERS[next];
+};
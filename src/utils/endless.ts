@@ -0,0 +1,41 @@
+import { DifficultyTier, GameRules, LevelResult } from "../types/game.types";
+import { createRng } from "./rng";
+import { DEFAULT_RULES } from "./rules";
+
+export const ENDLESS_LIVES = 3;
+
+const FIRST_ROUND_LIMIT_MS = 12000;
+const MIN_ROUND_LIMIT_MS = 4000;
+const ROUND_LIMIT_DECAY = 0.93; // each round gets 7% less time
+
+// Fixed so endless runs are always comparable; the round clock replaces
+// skipping and penalties, and a time-out costs a life instead
+export const ENDLESS_RULES: GameRules = {
+  ...DEFAULT_RULES,
+  allowSkip: false,
+  skipPenaltyMs: 0,
+  levelTimeLimitMs: null,
+  timeoutPenaltyMs: 0,
+  mistakePenaltyMs: 0,
+};
+
+// Shrinks with every round, WarioWare style, down to a playable floor
+export const getRoundTimeLimit = (round: number): number =>
+  Math.max(
+    MIN_ROUND_LIMIT_MS,
+    Math.round(FIRST_ROUND_LIMIT_MS * ROUND_LIMIT_DECAY ** (round - 1))
+  );
+
+export const getRoundDifficulty = (round: number): DifficultyTier =>
+  round <= 5 ? "easy" : round <= 12 ? "normal" : "hard";
+
+// Each round's game is drawn from its own stream, so a seed always produces
+// the same sequence however long the run lasts
+export const getRoundGameId = (
+  seed: number,
+  round: number,
+  gameIds: string[]
+): string => createRng(seed).fork("endless").fork(round).pick(gameIds);
+
+export const getRoundsCleared = (levelResults: LevelResult[]): number =>
+  levelResults.filter((result) => result.completed).length;
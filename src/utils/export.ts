@@ -0,0 +1,118 @@
+import {
+  GameMode,
+  GameRules,
+  LevelResult,
+  LevelStatus,
+  RunExport,
+} from "../types/game.types";
+import { computeSplits } from "./timing";
+
+export const getLevelStatus = (result: LevelResult): LevelStatus =>
+  result.completed
+    ? "completed"
+    : result.skipped
+    ? "skipped"
+    : result.timedOut
+    ? "timed-out"
+    : "pending";
+
+// Same statuses ProgressTracker shows: done, skipped, timed out, not reached
+const STATUS_EMOJI: Record<LevelStatus, string> = {
+  completed: "✅",
+  skipped: "⏭",
+  "timed-out": "⌛",
+  pending: "⬜",
+};
+
+export const getStatusEmoji = (result: LevelResult): string =>
+  STATUS_EMOJI[getLevelStatus(result)];
+
+export const formatEmojiGrid = (levelResults: LevelResult[]): string =>
+  levelResults.map(getStatusEmoji).join("");
+
+export const formatResultShare = (
+  headline: string,
+  levelResults: LevelResult[]
+): string => `Microgames ${headline}\n${formatEmojiGrid(levelResults)}`;
+
+export const buildRunExport = (
+  seed: number,
+  mode: GameMode,
+  rules: GameRules,
+  totalTime: number,
+  levelResults: LevelResult[]
+): RunExport => ({
+  version: 1,
+  exportedAt: new Date().toISOString(),
+  seed,
+  mode,
+  rules,
+  totalTime,
+  levelResults,
+});
+
+const CSV_COLUMNS = [
+  "level",
+  "gameId",
+  "difficulty",
+  "status",
+  "timeSpentMs",
+  "penaltyMs",
+  "splitMs",
+  "cumulativeMs",
+  "hits",
+  "mistakes",
+] as const;
+
+const toCsvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per level; times in raw milliseconds for spreadsheets
+export const formatResultsCsv = (levelResults: LevelResult[]): string => {
+  const splits = computeSplits(levelResults);
+  const rows = levelResults.map((result, index) => [
+    index + 1,
+    result.gameId,
+    result.difficulty,
+    getLevelStatus(result),
+    result.timeSpent,
+    result.penaltyTime,
+    splits[index]?.segment ?? "",
+    splits[index]?.cumulative ?? "",
+    result.hits,
+    result.mistakes,
+  ]);
+
+  return [CSV_COLUMNS, ...rows]
+    .map((row) => row.map(toCsvCell).join(","))
+    .join("\n");
+};
+
+export const downloadFile = (
+  filename: string,
+  data: Blob | string,
+  type: string
+): void => {
+  const blob = data instanceof Blob ? data : new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Tablets get the native share sheet; everything else downloads the file
+export const shareOrDownload = async (file: File): Promise<void> => {
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file] });
+      return;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") return;
+    }
+  }
+  downloadFile(file.name, file, file.type);
+};
@@ -0,0 +1,11 @@
+// MM:SS.CC, as shown on the timer and results screen
+export const formatTime = (milliseconds: number): string => {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  const ms = Math.floor((milliseconds % 1000) / 10);
+
+  return `${minutes.toString().padStart(2, "0")}:${seconds
+    .toString()
+    .padStart(2, "0")}.${ms.toString().padStart(2, "0")}`;
+};
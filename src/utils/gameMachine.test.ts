@@ -0,0 +1,274 @@
+import { describe, expect, it } from "vitest";
+import { createGameMachine, LEVEL_INTRO_MS } from "./gameMachine";
+import { createManualClock, createScheduler } from "./scheduler";
+import { createCheckpoint } from "./runCheckpoint";
+import { DEFAULT_RULES } from "./rules";
+import { ENDLESS_LIVES, ENDLESS_RULES, getRoundTimeLimit } from "./endless";
+import { GameRules, RunSetup } from "../types/game.types";
+
+const GAME_IDS = ["color-match", "odd-one-out", "speed-tap"];
+
+const setup = (rules: Partial<GameRules> = {}): RunSetup => ({
+  seed: 1,
+  gameIds: GAME_IDS,
+  mode: "standard",
+  difficultyMode: "normal",
+  rules: { ...DEFAULT_RULES, ...rules },
+  dailyKey: null,
+  dayNumber: null,
+});
+
+const createHarness = (rules: Partial<GameRules> = {}) => {
+  const clock = createManualClock(1000);
+  const scheduler = createScheduler(clock);
+  const machine = createGameMachine(scheduler, GAME_IDS);
+  machine.dispatch({ type: "start", setup: setup(rules) });
+
+  const finish = (outcome: "completed" | "skipped") =>
+    machine.dispatch({
+      type: "finish-level",
+      level: machine.getState().currentLevel,
+      outcome,
+    });
+
+  return { clock, scheduler, machine, state: machine.getState, finish };
+};
+
+describe("createGameMachine", () => {
+  it("counts down before starting the clock on level 1", () => {
+    const { clock, state } = createHarness();
+    expect(state().gameState).toBe("countdown");
+    expect(state().startTime).toBeNull();
+
+    clock.advance(LEVEL_INTRO_MS - 1);
+    expect(state().gameState).toBe("countdown");
+
+    clock.advance(1);
+    expect(state().gameState).toBe("playing");
+    expect(state().startTime).toBe(1000 + LEVEL_INTRO_MS);
+    expect(state().levelResults[0].startedAt).toBe(0);
+  });
+
+  it("passes through a transition between levels", () => {
+    const { clock, state, finish } = createHarness();
+    clock.advance(LEVEL_INTRO_MS + 2000);
+    finish("completed");
+
+    expect(state().gameState).toBe("transition");
+    expect(state().currentLevel).toBe(2);
+    expect(state().levelResults[0]).toMatchObject({
+      completed: true,
+      timeSpent: 2000,
+      endedAt: 2000,
+    });
+
+    clock.advance(LEVEL_INTRO_MS);
+    expect(state().gameState).toBe("playing");
+    expect(state().levelResults[1].startedAt).toBe(2000);
+  });
+
+  it("keeps the run clock going through intros when the rules say so", () => {
+    const { clock, state, finish } = createHarness({ introClock: "running" });
+    clock.advance(LEVEL_INTRO_MS + 2000);
+    finish("completed");
+    clock.advance(LEVEL_INTRO_MS + 1000);
+    finish("completed");
+
+    expect(state().levelResults[1]).toMatchObject({
+      startedAt: 2000 + LEVEL_INTRO_MS,
+      timeSpent: 1000,
+    });
+  });
+
+  it("lands only the first of a skip and a late completion", () => {
+    const { clock, machine, state } = createHarness();
+    clock.advance(LEVEL_INTRO_MS + 6000);
+
+    machine.dispatch({ type: "finish-level", level: 1, outcome: "skipped" });
+    machine.dispatch({ type: "finish-level", level: 1, outcome: "completed" });
+    clock.advance(LEVEL_INTRO_MS);
+    machine.dispatch({ type: "finish-level", level: 1, outcome: "completed" });
+
+    expect(state().currentLevel).toBe(2);
+    expect(state().gameState).toBe("playing");
+    expect(state().levelResults[0]).toMatchObject({
+      skipped: true,
+      completed: false,
+      penaltyTime: DEFAULT_RULES.skipPenaltyMs,
+    });
+    expect(state().totalTime).toBe(DEFAULT_RULES.skipPenaltyMs);
+  });
+
+  it("reveals the skip button after the delay on every level", () => {
+    const { clock, state, finish } = createHarness({ skipDelayMs: 5000 });
+    clock.advance(LEVEL_INTRO_MS + 4999);
+    expect(state().showSkipButton).toBe(false);
+    clock.advance(1);
+    expect(state().showSkipButton).toBe(true);
+
+    finish("completed");
+    clock.advance(LEVEL_INTRO_MS + 4999);
+    expect(state().showSkipButton).toBe(false);
+    clock.advance(1);
+    expect(state().showSkipButton).toBe(true);
+  });
+
+  it("times a level out when its time limit runs out", () => {
+    const { clock, state } = createHarness({
+      levelTimeLimitMs: 8000,
+      timeoutPenaltyMs: 4000,
+    });
+    clock.advance(LEVEL_INTRO_MS + 8000);
+
+    expect(state().gameState).toBe("transition");
+    expect(state().levelResults[0]).toMatchObject({
+      skipped: false,
+      timedOut: true,
+      timeSpent: 8000,
+      penaltyTime: 4000,
+    });
+    expect(state().totalTime).toBe(4000);
+  });
+
+  it("freezes the countdown and level timers while paused", () => {
+    const { clock, scheduler, machine, state } = createHarness({
+      levelTimeLimitMs: 8000,
+    });
+    clock.advance(1000);
+    machine.dispatch({ type: "pause", paused: true });
+    expect(scheduler.isPaused()).toBe(true);
+
+    clock.advance(60000);
+    expect(state().gameState).toBe("countdown");
+
+    machine.dispatch({ type: "pause", paused: false });
+    clock.advance(LEVEL_INTRO_MS - 1000);
+    expect(state().gameState).toBe("playing");
+
+    machine.dispatch({ type: "pause", paused: true });
+    clock.advance(60000);
+    machine.dispatch({ type: "pause", paused: false });
+    clock.advance(7999);
+    expect(state().gameState).toBe("playing");
+    clock.advance(1);
+    expect(state().levelResults[0].timeSpent).toBe(8000);
+  });
+
+  it("completes after the last level with penalties in the total", () => {
+    const { clock, machine, state, finish } = createHarness({
+      mistakePenaltyMs: 1000,
+    });
+    clock.advance(LEVEL_INTRO_MS + 1000);
+    machine.dispatch({ type: "input", level: 1, correct: false });
+    finish("completed");
+    clock.advance(LEVEL_INTRO_MS + 1000);
+    finish("skipped");
+    clock.advance(LEVEL_INTRO_MS + 1000);
+    finish("completed");
+
+    const elapsed = 3000;
+    expect(state().gameState).toBe("completed");
+    expect(state().totalTime).toBe(
+      elapsed + 1000 + DEFAULT_RULES.skipPenaltyMs
+    );
+    expect(state().levelResults[0].mistakes).toBe(1);
+  });
+
+  it("ends an endless run when the last life runs out", () => {
+    const clock = createManualClock();
+    const machine = createGameMachine(createScheduler(clock), GAME_IDS);
+    machine.dispatch({
+      type: "start",
+      setup: { ...setup(), mode: "endless", gameIds: [], rules: ENDLESS_RULES },
+    });
+    clock.advance(LEVEL_INTRO_MS);
+
+    for (let round = 1; round <= ENDLESS_LIVES; round++) {
+      clock.advance(getRoundTimeLimit(round) + LEVEL_INTRO_MS);
+    }
+
+    expect(machine.getState().gameState).toBe("completed");
+    expect(machine.getState().lives).toBe(0);
+    expect(machine.getState().levelResults).toHaveLength(ENDLESS_LIVES);
+    expect(
+      machine.getState().levelResults.every((result) => result.timedOut)
+    ).toBe(true);
+  });
+
+  it("drops pending timers on reset", () => {
+    const { clock, machine, state } = createHarness({ levelTimeLimitMs: 8000 });
+    clock.advance(LEVEL_INTRO_MS);
+    machine.dispatch({ type: "reset" });
+    clock.advance(60000);
+
+    expect(state().gameState).toBe("idle");
+    expect(state().difficultyMode).toBe("normal");
+  });
+
+  it("resumes a checkpoint with the active level's time carried over", () => {
+    const { clock, scheduler, state, finish } = createHarness();
+    clock.advance(LEVEL_INTRO_MS + 2000);
+    finish("completed");
+    clock.advance(LEVEL_INTRO_MS + 1500);
+    const checkpoint = createCheckpoint(state(), scheduler.now(), [[[100, 0]]]);
+    expect(checkpoint.levelElapsed).toBe(1500);
+    expect(checkpoint.replayInputs).toEqual([[[100, 0]]]);
+
+    // A reload: a new clock and machine, picking up from storage
+    const reloaded = createManualClock(50000);
+    const machine = createGameMachine(createScheduler(reloaded), GAME_IDS);
+    machine.dispatch({ type: "resume", checkpoint });
+    expect(machine.getState().gameState).toBe("countdown");
+
+    reloaded.advance(LEVEL_INTRO_MS + 500);
+    machine.dispatch({ type: "finish-level", level: 2, outcome: "completed" });
+
+    const resumed = machine.getState();
+    expect(resumed.resumedFrom).toBe(3500);
+    expect(resumed.levelResults[0]).toEqual(checkpoint.levelResults[0]);
+    expect(resumed.levelResults[1]).toMatchObject({
+      completed: true,
+      timeSpent: 2000,
+      endedAt: 4000,
+    });
+  });
+
+  it("resumes with a time limit without refilling the level's clock", () => {
+    const { clock, scheduler, state } = createHarness({
+      levelTimeLimitMs: 8000,
+      skipDelayMs: 5000,
+    });
+    clock.advance(LEVEL_INTRO_MS + 7000);
+    const checkpoint = createCheckpoint(state(), scheduler.now(), []);
+
+    const reloaded = createManualClock();
+    const machine = createGameMachine(createScheduler(reloaded), GAME_IDS);
+    machine.dispatch({ type: "resume", checkpoint });
+    reloaded.advance(LEVEL_INTRO_MS);
+    expect(machine.getState().gameState).toBe("playing");
+    expect(machine.getState().showSkipButton).toBe(true);
+
+    reloaded.advance(999);
+    expect(machine.getState().gameState).toBe("playing");
+    reloaded.advance(1);
+    expect(machine.getState().levelResults[0]).toMatchObject({
+      timedOut: true,
+      timeSpent: 8000,
+    });
+  });
+
+  it("keeps the carried-over time through a reload during the countdown", () => {
+    const { clock, scheduler, state } = createHarness();
+    clock.advance(LEVEL_INTRO_MS + 1500);
+    const first = createCheckpoint(state(), scheduler.now(), []);
+
+    const reloaded = createManualClock();
+    const machine = createGameMachine(createScheduler(reloaded), GAME_IDS);
+    machine.dispatch({ type: "resume", checkpoint: first });
+    reloaded.advance(1000);
+    const second = createCheckpoint(machine.getState(), reloaded.now(), []);
+
+    expect(second.levelElapsed).toBe(1500);
+    expect(second.levelResults[0].startedAt).toBe(0);
+  });
+});
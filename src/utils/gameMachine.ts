@@ -0,0 +1,390 @@
+import {
+  DifficultyMode,
+  GameAction,
+  GameContainerState,
+  GameEnv,
+  GameMachine,
+  GameMode,
+  GameRules,
+  LevelResult,
+  Scheduler,
+  ScheduledAction,
+  TimerId,
+} from "../types/game.types";
+import { getInitialDifficulty, getNextDifficulty } from "./difficulty";
+import {
+  ENDLESS_LIVES,
+  getRoundDifficulty,
+  getRoundGameId,
+  getRoundTimeLimit,
+} from "./endless";
+import { DEFAULT_RULES } from "./rules";
+
+// Every level opens with an intro card counting down 3-2-1
+export const INTRO_STEPS = 3;
+export const INTRO_STEP_MS = 700;
+export const LEVEL_INTRO_MS = INTRO_STEPS * INTRO_STEP_MS;
+
+export const createLevelResults = (
+  gameIds: string[],
+  difficultyMode: DifficultyMode = "normal"
+): LevelResult[] =>
+  gameIds.map((gameId) => ({
+    gameId,
+    difficulty: getInitialDifficulty(difficultyMode),
+    completed: false,
+    skipped: false,
+    timedOut: false,
+    timeSpent: 0,
+    startedAt: null,
+    endedAt: null,
+    penaltyTime: 0,
+    hits: 0,
+    mistakes: 0,
+  }));
+
+// Endless runs grow one round at a time, each with its own game and tier
+const createEndlessRound = (
+  seed: number,
+  round: number,
+  gameIds: string[]
+): LevelResult => ({
+  ...createLevelResults([getRoundGameId(seed, round, gameIds)])[0],
+  difficulty: getRoundDifficulty(round),
+});
+
+export const getLevelTimeLimit = (
+  mode: GameMode,
+  rules: GameRules,
+  level: number
+): number | null =>
+  mode === "endless" ? getRoundTimeLimit(level) : rules.levelTimeLimitMs;
+
+export const createIdleState = (
+  gameIds: string[],
+  difficultyMode: DifficultyMode = "normal"
+): GameContainerState => ({
+  gameState: "idle",
+  currentLevel: 1,
+  startTime: null,
+  totalTime: 0,
+  levelResults: createLevelResults(gameIds),
+  showSkipButton: false,
+  isPaused: false,
+  rules: DEFAULT_RULES,
+  seed: 0,
+  mode: "standard",
+  difficultyMode,
+  dailyKey: null,
+  dayNumber: null,
+  lives: null,
+  phaseStartedAt: null,
+  resumedFrom: null,
+});
+
+const isActive = (state: GameContainerState): boolean =>
+  state.gameState !== "idle" && state.gameState !== "completed";
+
+export const gameReducer = (
+  state: GameContainerState,
+  action: GameAction,
+  { now, gameIds }: GameEnv
+): GameContainerState => {
+  switch (action.type) {
+    case "start": {
+      const { gameIds: order, ...setup } = action.setup;
+      const endless = setup.mode === "endless";
+      return {
+        ...createIdleState(gameIds, setup.difficultyMode),
+        ...setup,
+        gameState: "countdown",
+        levelResults: endless
+          ? [createEndlessRound(setup.seed, 1, gameIds)]
+          : createLevelResults(order, setup.difficultyMode),
+        lives: endless ? ENDLESS_LIVES : null,
+        phaseStartedAt: now,
+      };
+    }
+
+    // Picks up where the checkpoint left off, after a fresh countdown. The
+    // active level keeps its start, so time already spent on it still counts.
+    case "resume": {
+      const { checkpoint } = action;
+      const index = checkpoint.currentLevel - 1;
+      const levelStart =
+        checkpoint.levelResults[index].startedAt ??
+        checkpoint.levelResults[index - 1]?.endedAt ??
+        0;
+      const levelResults = [...checkpoint.levelResults];
+      levelResults[index] = { ...levelResults[index], startedAt: levelStart };
+
+      return {
+        ...createIdleState(gameIds, checkpoint.difficultyMode),
+        gameState: "countdown",
+        currentLevel: checkpoint.currentLevel,
+        totalTime: checkpoint.totalTime,
+        levelResults,
+        rules: checkpoint.rules,
+        seed: checkpoint.seed,
+        mode: checkpoint.mode,
+        dailyKey: checkpoint.dailyKey,
+        dayNumber: checkpoint.dayNumber,
+        lives: checkpoint.lives,
+        phaseStartedAt: now,
+        resumedFrom: levelStart + checkpoint.levelElapsed,
+      };
+    }
+
+    // The run clock starts with the first level (or, when resuming, from
+    // where the run left off). A paused intro clock shifts the start by the
+    // intro's length, so it never shows up in any time.
+    case "begin-level": {
+      const waiting =
+        state.gameState === "countdown" || state.gameState === "transition";
+      if (!waiting || state.currentLevel !== action.level) return state;
+
+      const introLength =
+        state.rules.introClock === "paused" && state.phaseStartedAt !== null
+          ? now - state.phaseStartedAt
+          : 0;
+      const startTime =
+        state.startTime !== null
+          ? state.startTime + introLength
+          : now - (state.resumedFrom ?? 0);
+      const levelResults = [...state.levelResults];
+      const current = levelResults[action.level - 1];
+      levelResults[action.level - 1] = {
+        ...current,
+        startedAt: current.startedAt ?? now - startTime,
+      };
+      return {
+        ...state,
+        gameState: "playing",
+        startTime,
+        levelResults,
+        showSkipButton: false,
+        phaseStartedAt: now,
+      };
+    }
+
+    case "show-skip":
+      if (state.gameState !== "playing" || state.currentLevel !== action.level) {
+        return state;
+      }
+      return { ...state, showSkipButton: true };
+
+    // Mistakes may carry a time penalty, charged immediately so the timer
+    // reflects it
+    case "input": {
+      if (state.gameState !== "playing" || state.currentLevel !== action.level) {
+        return state;
+      }
+
+      const index = state.currentLevel - 1;
+      const penalty = action.correct ? 0 : state.rules.mistakePenaltyMs;
+      const levelResults = [...state.levelResults];
+      const current = levelResults[index];
+      levelResults[index] = {
+        ...current,
+        hits: current.hits + (action.correct ? 1 : 0),
+        mistakes: current.mistakes + (action.correct ? 0 : 1),
+        penaltyTime: current.penaltyTime + penalty,
+      };
+
+      return { ...state, levelResults, totalTime: state.totalTime + penalty };
+    }
+
+    case "finish-level": {
+      if (
+        state.gameState !== "playing" ||
+        state.currentLevel !== action.level ||
+        state.startTime === null
+      ) {
+        return state;
+      }
+
+      const { outcome } = action;
+      const index = state.currentLevel - 1;
+      const endedAt = now - state.startTime;
+      const outcomePenalty =
+        outcome === "skipped"
+          ? state.rules.skipPenaltyMs
+          : outcome === "timed-out"
+          ? state.rules.timeoutPenaltyMs
+          : 0;
+      const levelResults = [...state.levelResults];
+      const current = levelResults[index];
+      levelResults[index] = {
+        ...current,
+        completed: outcome === "completed",
+        skipped: outcome === "skipped",
+        timedOut: outcome === "timed-out",
+        timeSpent: endedAt - (current.startedAt ?? 0),
+        endedAt,
+        penaltyTime: current.penaltyTime + outcomePenalty,
+      };
+
+      // During play totalTime holds accumulated penalties only
+      const penalties = state.totalTime + outcomePenalty;
+
+      // Endless runs end when the last life is lost, not after a set count
+      const endless = state.mode === "endless";
+      const lives =
+        endless && outcome !== "completed" && state.lives !== null
+          ? state.lives - 1
+          : state.lives;
+      const runOver = endless ? lives === 0 : index + 1 >= levelResults.length;
+
+      if (runOver) {
+        return {
+          ...state,
+          levelResults,
+          lives,
+          gameState: "completed",
+          totalTime: endedAt + penalties,
+          showSkipButton: false,
+          isPaused: false,
+          phaseStartedAt: now,
+        };
+      }
+
+      if (endless) {
+        levelResults.push(
+          createEndlessRound(state.seed, state.currentLevel + 1, gameIds)
+        );
+      } else {
+        levelResults[index + 1] = {
+          ...levelResults[index + 1],
+          difficulty: getNextDifficulty(
+            state.difficultyMode,
+            levelResults[index]
+          ),
+        };
+      }
+
+      return {
+        ...state,
+        gameState: "transition",
+        currentLevel: state.currentLevel + 1,
+        levelResults,
+        lives,
+        totalTime: penalties,
+        showSkipButton: false,
+        phaseStartedAt: now,
+      };
+    }
+
+    case "pause":
+      if (!isActive(state) || state.isPaused === action.paused) return state;
+      return { ...state, isPaused: action.paused };
+
+    // Keeps the player's difficulty choice
+    case "reset":
+      return createIdleState(gameIds, state.difficultyMode);
+
+    case "set-difficulty-mode":
+      if (state.gameState !== "idle") return state;
+      return { ...state, difficultyMode: action.difficultyMode };
+  }
+};
+
+// The timers the current phase needs, relative to when it began
+export const getPhaseTimers = (
+  state: GameContainerState
+): ScheduledAction[] => {
+  const level = state.currentLevel;
+
+  switch (state.gameState) {
+    case "countdown":
+    case "transition":
+      return [
+        { delayMs: LEVEL_INTRO_MS, action: { type: "begin-level", level } },
+      ];
+
+    // A resumed level already has time on it, which the timers must not refill
+    case "playing": {
+      const timers: ScheduledAction[] = [];
+      const timeLimit = getLevelTimeLimit(state.mode, state.rules, level);
+      const startedAt = state.levelResults[level - 1].startedAt ?? 0;
+      const elapsed =
+        state.startTime !== null && state.phaseStartedAt !== null
+          ? Math.max(0, state.phaseStartedAt - state.startTime - startedAt)
+          : 0;
+      if (state.rules.allowSkip) {
+        timers.push({
+          delayMs: Math.max(0, state.rules.skipDelayMs - elapsed),
+          action: { type: "show-skip", level },
+        });
+      }
+      if (timeLimit !== null) {
+        timers.push({
+          delayMs: Math.max(0, timeLimit - elapsed),
+          action: { type: "finish-level", level, outcome: "timed-out" },
+        });
+      }
+      return timers;
+    }
+
+    default:
+      return [];
+  }
+};
+
+export const createGameMachine = (
+  scheduler: Scheduler,
+  gameIds: string[],
+  initial: GameContainerState = createIdleState(gameIds)
+): GameMachine => {
+  let state = initial;
+  let timers: TimerId[] = [];
+  let armedPhase: string | null = null;
+  const listeners = new Set<() => void>();
+
+  const clearTimers = (): void => {
+    timers.forEach(scheduler.clearTimeout);
+    timers = [];
+  };
+
+  // Re-arms only when a new phase begins, so inputs and the skip reveal
+  // don't restart the level's timers
+  const syncTimers = (): void => {
+    const phase = `${state.gameState}:${state.currentLevel}:${state.phaseStartedAt}`;
+    if (phase === armedPhase) return;
+    armedPhase = phase;
+    clearTimers();
+    timers = getPhaseTimers(state).map(({ delayMs, action }) =>
+      scheduler.setTimeout(() => dispatch(action), delayMs)
+    );
+  };
+
+  const dispatch = (action: GameAction): void => {
+    // A new run never starts frozen
+    if (action.type === "start" || action.type === "reset") scheduler.resume();
+
+    const next = gameReducer(state, action, { now: scheduler.now(), gameIds });
+    if (next === state) return;
+    state = next;
+
+    if (state.isPaused !== scheduler.isPaused()) {
+      if (state.isPaused) scheduler.pause();
+      else scheduler.resume();
+    }
+    syncTimers();
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    getState: () => state,
+    dispatch,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose: () => {
+      clearTimers();
+      armedPhase = null;
+    },
+  };
+};
@@ -0,0 +1,17 @@
+import { Channel, InputChannel } from "../types/game.types";
+
+export const createChannel = <T>(): Channel<T> => {
+  const listeners = new Set<(value: T) => void>();
+
+  return {
+    emit: (value) => listeners.forEach((listener) => listener(value)),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+export const createInputChannel = (): InputChannel => createChannel<number>();
@@ -0,0 +1,44 @@
+import {
+  DifficultyTier,
+  MatchPlayerResult,
+  MatchSetup,
+} from "../types/game.types";
+import { randomSeed } from "./rng";
+import { buildGameOrder, loadRules } from "./rules";
+
+// Both players get the same seed, order and rules. Adaptive difficulty is
+// left out since it would hand each player different puzzles.
+export const createMatchSetup = (
+  gameIds: string[],
+  difficulty: DifficultyTier
+): MatchSetup => {
+  const rules = loadRules();
+  return {
+    seed: randomSeed(),
+    gameIds: buildGameOrder(gameIds, rules.rounds),
+    difficulty,
+    rules,
+  };
+};
+
+// Finishers beat anyone still playing; between finishers the lower time
+// wins. Returns the winner's index, or null for a draw.
+export const getMatchWinner = (players: MatchPlayerResult[]): number | null => {
+  let winner: number | null = null;
+  let tied = false;
+
+  players.forEach((player, index) => {
+    if (!player.finished) return;
+    if (winner === null || player.totalTime < players[winner].totalTime) {
+      winner = index;
+      tied = false;
+    } else if (player.totalTime === players[winner].totalTime) {
+      tied = true;
+    }
+  });
+
+  return tied ? null : winner;
+};
+
+export const getPlayerName = (name: string, index: number): string =>
+  name.trim() || `Player ${index + 1}`;
@@ -0,0 +1,116 @@
+import {
+  AccessibilitySettings,
+  ColorKey,
+  ColorVisionMode,
+  Swatch,
+} from "../types/game.types";
+import { readJson, writeJson } from "./storage";
+
+const STORAGE_KEY = "microgames.accessibility";
+
+export const DEFAULT_ACCESSIBILITY: AccessibilitySettings = {
+  colorVision: "standard",
+  symbols: false,
+};
+
+export const COLOR_VISION_LABELS: Record<ColorVisionMode, string> = {
+  standard: "Standard",
+  protanopia: "Protanopia (red-blind)",
+  deuteranopia: "Deuteranopia (green-blind)",
+  tritanopia: "Tritanopia (blue-blind)",
+};
+
+type Palette = Record<ColorKey, { hex: string; name: string }>;
+
+const STANDARD: Palette = {
+  red: { hex: "#EF4444", name: "Red" },
+  blue: { hex: "#3B82F6", name: "Blue" },
+  green: { hex: "#10B981", name: "Green" },
+  orange: { hex: "#F59E0B", name: "Orange" },
+  purple: { hex: "#8B5CF6", name: "Purple" },
+  pink: { hex: "#EC4899", name: "Pink" },
+  teal: { hex: "#14B8A6", name: "Teal" },
+  "deep-orange": { hex: "#F97316", name: "Deep orange" },
+  "light-blue": { hex: "#60A5FA", name: "Light blue" },
+};
+
+// Okabe–Ito: stays distinguishable under both red-green deficiencies. The
+// protan variant lifts the reds, which protanopes see as darker.
+const OKABE_ITO: Palette = {
+  red: { hex: "#D55E00", name: "Vermilion" },
+  blue: { hex: "#0072B2", name: "Blue" },
+  green: { hex: "#009E73", name: "Bluish green" },
+  orange: { hex: "#E69F00", name: "Orange" },
+  purple: { hex: "#CC79A7", name: "Reddish purple" },
+  pink: { hex: "#F0E442", name: "Yellow" },
+  teal: { hex: "#56B4E9", name: "Sky blue" },
+  "deep-orange": { hex: "#000000", name: "Black" },
+  "light-blue": { hex: "#7FB8DC", name: "Light blue" },
+};
+
+// Blue-yellow confusions are avoided by leaning on reds, teals and lightness
+const TRITAN: Palette = {
+  red: { hex: "#E53935", name: "Red" },
+  blue: { hex: "#283593", name: "Navy" },
+  green: { hex: "#A5D6A7", name: "Pale green" },
+  orange: { hex: "#FB8C00", name: "Orange" },
+  purple: { hex: "#8E24AA", name: "Purple" },
+  pink: { hex: "#F8BBD0", name: "Pale pink" },
+  teal: { hex: "#00695C", name: "Dark teal" },
+  "deep-orange": { hex: "#212121", name: "Black" },
+  "light-blue": { hex: "#7986CB", name: "Light indigo" },
+};
+
+const PALETTES: Record<ColorVisionMode, Palette> = {
+  standard: STANDARD,
+  protanopia: {
+    ...OKABE_ITO,
+    red: { hex: "#FF6E3A", name: "Vermilion" },
+  },
+  deuteranopia: OKABE_ITO,
+  tritanopia: TRITAN,
+};
+
+// One symbol per color so every game stays solvable without color vision.
+// Light blue is an outlined blue so subtle shade puzzles stay subtle.
+const SYMBOLS: Record<ColorKey, string> = {
+  red: "▲",
+  blue: "●",
+  green: "■",
+  orange: "◆",
+  purple: "★",
+  pink: "♥",
+  teal: "✚",
+  "deep-orange": "✖",
+  "light-blue": "○",
+};
+
+export const normalizeAccessibility = (
+  settings: Partial<AccessibilitySettings>
+): AccessibilitySettings => {
+  const merged = { ...DEFAULT_ACCESSIBILITY, ...settings };
+  return {
+    colorVision:
+      merged.colorVision in PALETTES
+        ? merged.colorVision
+        : DEFAULT_ACCESSIBILITY.colorVision,
+    symbols: merged.symbols === true,
+  };
+};
+
+export const loadAccessibility = (): AccessibilitySettings =>
+  normalizeAccessibility(
+    readJson<Partial<AccessibilitySettings>>(STORAGE_KEY, {})
+  );
+
+export const saveAccessibility = (settings: AccessibilitySettings): void => {
+  writeJson(STORAGE_KEY, normalizeAccessibility(settings));
+};
+
+export const getSwatch = (
+  settings: AccessibilitySettings,
+  key: ColorKey
+): Swatch => ({
+  ...PALETTES[settings.colorVision][key],
+  symbol: settings.symbols ? SYMBOLS[key] : null,
+});
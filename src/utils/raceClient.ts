@@ -0,0 +1,76 @@
+import {
+  RaceClient,
+  RaceClientHandlers,
+  RaceClientMessage,
+} from "../types/game.types";
+import {
+  DEFAULT_RACE_SERVER_PORT,
+  encodeMessage,
+  parseServerMessage,
+} from "./raceProtocol";
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 10000;
+
+// VITE_RACE_SERVER_URL points at a deployed relay; otherwise assume one
+// running next to the dev server (npm run relay)
+export const getRaceServerUrl = (): string =>
+  import.meta.env.VITE_RACE_SERVER_URL ??
+  `${window.location.protocol === "https:" ? "wss" : "ws"}://${
+    window.location.hostname
+  }:${DEFAULT_RACE_SERVER_PORT}`;
+
+// Reconnects with backoff until closed. Messages sent while disconnected are
+// dropped: progress messages carry the whole state, so the caller just
+// rejoins and resends the latest one from onOpen.
+export const createRaceClient = (
+  url: string,
+  handlers: RaceClientHandlers
+): RaceClient => {
+  let socket: WebSocket | null = null;
+  let attempts = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const connect = (): void => {
+    handlers.onStateChange(attempts === 0 ? "connecting" : "reconnecting");
+    socket = new WebSocket(url);
+
+    socket.addEventListener("open", () => {
+      attempts = 0;
+      handlers.onStateChange("open");
+      handlers.onOpen();
+    });
+    socket.addEventListener("message", (event) => {
+      const message =
+        typeof event.data === "string" ? parseServerMessage(event.data) : null;
+      if (message) handlers.onMessage(message);
+    });
+    socket.addEventListener("close", () => {
+      socket = null;
+      if (closed) return;
+      attempts += 1;
+      handlers.onStateChange("reconnecting");
+      retryTimer = setTimeout(
+        connect,
+        Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** (attempts - 1))
+      );
+    });
+  };
+
+  connect();
+
+  return {
+    send: (message: RaceClientMessage) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(encodeMessage(message));
+      }
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer !== null) clearTimeout(retryTimer);
+      socket?.close();
+      handlers.onStateChange("closed");
+    },
+  };
+};
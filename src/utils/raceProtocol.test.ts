@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { parseClientMessage, RACE_PROTOCOL_VERSION } from "./raceProtocol";
+import { DEFAULT_RULES } from "./rules";
+
+const join = {
+  type: "join",
+  version: RACE_PROTOCOL_VERSION,
+  room: "ABCD",
+  name: "Ada",
+  setup: {
+    seed: 1,
+    gameIds: ["color-match"],
+    difficulty: "normal",
+    rules: DEFAULT_RULES,
+  },
+};
+
+const parse = (message: unknown) =>
+  parseClientMessage(JSON.stringify(message));
+
+describe("parseClientMessage", () => {
+  it("accepts well-formed messages", () => {
+    expect(parse(join)).toEqual(join);
+    expect(parse({ type: "start" })).toEqual({ type: "start" });
+    expect(
+      parse({ type: "finish", totalTime: 1000, levelResults: [] })
+    ).not.toBeNull();
+  });
+
+  it("rejects messages missing the fields the relay reads", () => {
+    expect(parse({ type: "finish" })).toBeNull();
+    expect(parse({ type: "progress", currentLevel: 2 })).toBeNull();
+    expect(
+      parse({ type: "progress", currentLevel: "2", levelResults: [] })
+    ).toBeNull();
+    expect(
+      parse({ type: "finish", totalTime: 1000, levelResults: [null] })
+    ).toBeNull();
+    expect(parse({ ...join, room: 42 })).toBeNull();
+    expect(parse({ ...join, room: "  " })).toBeNull();
+    expect(parse({ ...join, name: "x".repeat(500) })).toBeNull();
+    expect(parse({ ...join, setup: { ...join.setup, gameIds: [1] } })).toBeNull();
+    expect(parseClientMessage("not json")).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  RaceClientMessage,
+  RaceServerMessage,
+} from "../types/game.types";
+
+export const RACE_PROTOCOL_VERSION = 1;
+
+export const RACE_MAX_PLAYERS = 8;
+
+export const DEFAULT_RACE_SERVER_PORT = 8787;
+
+const CLIENT_TYPES: RaceClientMessage["type"][] = [
+  "join",
+  "start",
+  "progress",
+  "finish",
+];
+const SERVER_TYPES: RaceServerMessage["type"][] = ["welcome", "room", "error"];
+
+const parseTyped = (data: string, types: string[]): unknown => {
+  try {
+    const message = JSON.parse(data);
+    return typeof message === "object" &&
+      message !== null &&
+      types.includes(message.type)
+      ? message
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const RACE_MAX_NAME_LENGTH = 20;
+const MAX_ROOM_LENGTH = 16;
+const MAX_PLAYER_ID_LENGTH = 64;
+
+const isBoundedString = (value: unknown, max: number): value is string =>
+  typeof value === "string" && value.length <= max;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Deep enough that the relay can store and rebroadcast them safely; clients
+// still treat every game id as untrusted
+const isLevelResults = (value: unknown): boolean =>
+  Array.isArray(value) &&
+  value.every((result) => isRecord(result) && typeof result.gameId === "string");
+
+const isMatchSetup = (value: unknown): boolean =>
+  isRecord(value) &&
+  isFiniteNumber(value.seed) &&
+  Array.isArray(value.gameIds) &&
+  value.gameIds.every((id) => typeof id === "string") &&
+  typeof value.difficulty === "string" &&
+  isRecord(value.rules);
+
+const isClientMessage = (message: Record<string, unknown>): boolean => {
+  switch (message.type) {
+    case "join":
+      return (
+        isFiniteNumber(message.version) &&
+        isBoundedString(message.room, MAX_ROOM_LENGTH) &&
+        message.room.trim() !== "" &&
+        isBoundedString(message.name, RACE_MAX_NAME_LENGTH) &&
+        isMatchSetup(message.setup) &&
+        (message.playerId === undefined ||
+          isBoundedString(message.playerId, MAX_PLAYER_ID_LENGTH))
+      );
+    case "start":
+      return true;
+    case "progress":
+      return (
+        isFiniteNumber(message.currentLevel) &&
+        isLevelResults(message.levelResults)
+      );
+    case "finish":
+      return (
+        isFiniteNumber(message.totalTime) &&
+        isLevelResults(message.levelResults)
+      );
+    default:
+      return false;
+  }
+};
+
+// Every field the relay reads is checked, so a malformed message is refused
+// rather than crashing a room
+export const parseClientMessage = (data: string): RaceClientMessage | null => {
+  const message = parseTyped(data, CLIENT_TYPES);
+  return isRecord(message) && isClientMessage(message)
+    ? (message as RaceClientMessage)
+    : null;
+};
+
+export const parseServerMessage = (data: string): RaceServerMessage | null =>
+  parseTyped(data, SERVER_TYPES) as RaceServerMessage | null;
+
+export const encodeMessage = (
+  message: RaceClientMessage | RaceServerMessage
+): string => JSON.stringify(message);
+
+// Short, unambiguous codes that are easy to read out loud
+const ROOM_CODE_LETTERS = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+
+export const createRoomCode = (): string =>
+  Array.from(
+    { length: 4 },
+    () => ROOM_CODE_LETTERS[Math.floor(Math.random() * ROOM_CODE_LETTERS.length)]
+  ).join("");
+
+export const normalizeRoomCode = (code: string): string =>
+  code.trim().toUpperCase();
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { buildReplay, decodeReplay, encodeReplay } from "./replay";
+import { DEFAULT_RULES } from "./rules";
+import { LevelResult, Replay, ReplayInput } from "../types/game.types";
+
+describe("encodeReplay", () => {
+  it("round-trips replays too long to encode in one fromCharCode call", () => {
+    const inputs = Array.from(
+      { length: 200000 },
+      (_, i): ReplayInput => [i * 10, i % 4]
+    );
+    const replay: Replay = {
+      version: 1,
+      seed: 42,
+      rules: DEFAULT_RULES,
+      levels: [
+        {
+          gameId: "speed-tap",
+          difficulty: "hard",
+          outcome: "completed",
+          duration: 2000000,
+          inputs,
+        },
+      ],
+    };
+
+    const encoded = encodeReplay(replay);
+    expect(encoded).toMatch(/^[\w-]+$/);
+    expect(decodeReplay(encoded)).toEqual(replay);
+  });
+});
+
+const result = (
+  startedAt: number,
+  endedAt: number,
+  completed = true
+): LevelResult => ({
+  gameId: "speed-tap",
+  difficulty: "normal",
+  completed,
+  skipped: !completed,
+  timedOut: false,
+  timeSpent: endedAt - startedAt,
+  startedAt,
+  endedAt,
+  penaltyTime: 0,
+  hits: 0,
+  mistakes: 0,
+});
+
+describe("buildReplay", () => {
+  it("times a resumed level from where it restarted", () => {
+    // Resumed 1500ms into level 2, which was then skipped at 4000ms
+    const replay = buildReplay(
+      1,
+      DEFAULT_RULES,
+      [result(0, 1000), result(1000, 4000, false), result(4000, 5000)],
+      [[[500, 0]], [[2000, 1]], [[800, 2]]],
+      2500
+    );
+
+    expect(replay.levels.map((level) => level.duration)).toEqual([
+      1000, 1500, 1000,
+    ]);
+  });
+});
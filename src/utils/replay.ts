@@ -0,0 +1,131 @@
+import {
+  GameRules,
+  LevelResult,
+  Replay,
+  ReplayInput,
+  ReplayLevel,
+  RunRecord,
+} from "../types/game.types";
+import { normalizeRules } from "./rules";
+
+const REPLAY_VERSION = 1;
+
+// Inputs are stored as a flat [dt, target, dt, target, ...] list with times
+// delta-encoded, which keeps long SpeedTap levels short
+const packInputs = (inputs: ReplayInput[]): number[] => {
+  let previous = 0;
+  return inputs.flatMap(([time, target]) => {
+    const delta = Math.round(time - previous);
+    previous += delta;
+    return [delta, target];
+  });
+};
+
+const unpackInputs = (packed: number[]): ReplayInput[] => {
+  const inputs: ReplayInput[] = [];
+  let time = 0;
+  for (let i = 0; i + 1 < packed.length; i += 2) {
+    time += packed[i];
+    inputs.push([time, packed[i + 1]]);
+  }
+  return inputs;
+};
+
+// Spreading every byte into one fromCharCode call overflows the stack on
+// long runs, so convert in chunks
+const BYTE_CHUNK = 0x8000;
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += BYTE_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BYTE_CHUNK));
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  );
+};
+
+export const encodeReplay = (replay: Replay): string =>
+  toBase64Url(
+    JSON.stringify({
+      ...replay,
+      levels: replay.levels.map((level) => ({
+        ...level,
+        inputs: packInputs(level.inputs),
+      })),
+    })
+  );
+
+export const decodeReplay = (encoded: string): Replay => {
+  const parsed = JSON.parse(fromBase64Url(encoded));
+  if (parsed?.version !== REPLAY_VERSION || !Array.isArray(parsed.levels)) {
+    throw new Error("Unsupported replay format");
+  }
+
+  return {
+    version: REPLAY_VERSION,
+    seed: parsed.seed >>> 0,
+    rules: normalizeRules(parsed.rules ?? {}),
+    levels: parsed.levels.map(
+      (level: Omit<ReplayLevel, "inputs"> & { inputs: number[] }) => ({
+        ...level,
+        inputs: unpackInputs(level.inputs),
+      })
+    ),
+  };
+};
+
+// Resuming restarts the active level at `resumedFrom` on the run clock, so
+// that level replays from there rather than from its real start
+export const getReplayOffset = (
+  result: LevelResult | undefined,
+  resumedFrom: number | null
+): number => {
+  if (resumedFrom === null || !result || result.startedAt === null) return 0;
+  const restarted =
+    result.startedAt < resumedFrom &&
+    (result.endedAt === null || result.endedAt > resumedFrom);
+  return restarted ? resumedFrom - result.startedAt : 0;
+};
+
+export const buildReplay = (
+  seed: number,
+  rules: GameRules,
+  levelResults: LevelResult[],
+  inputsByLevel: ReplayInput[][],
+  resumedFrom: number | null = null
+): Replay => ({
+  version: REPLAY_VERSION,
+  seed,
+  rules,
+  levels: levelResults.map((result, index) => ({
+    gameId: result.gameId,
+    difficulty: result.difficulty,
+    outcome: result.completed
+      ? "completed"
+      : result.timedOut
+      ? "timed-out"
+      : "skipped",
+    duration: result.timeSpent - getReplayOffset(result, resumedFrom),
+    inputs: inputsByLevel[index] ?? [],
+  })),
+});
+
+// Older or corrupted records simply have no watchable replay
+export const getRunReplay = (run: RunRecord): Replay | null => {
+  if (!run.replay) return null;
+  try {
+    return decodeReplay(run.replay);
+  } catch {
+    return null;
+  }
+};
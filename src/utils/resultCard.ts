@@ -0,0 +1,114 @@
+import { ResultCard, ResultCardLevel } from "../types/game.types";
+import { resolveToken, tokens } from "../theme/theme";
+
+const WIDTH = 600;
+const PADDING = 32;
+const ROW_HEIGHT = 40;
+const HEADER_HEIGHT = 220;
+const FOOTER_HEIGHT = 56;
+const FONT = "system-ui, Avenir, Helvetica, Arial, sans-serif";
+
+const STATUS_SYMBOLS: Record<ResultCardLevel["status"], string> = {
+  completed: "✓",
+  skipped: "⏭",
+  "timed-out": "⌛",
+  pending: "○",
+};
+
+// Drawn at 2x so the card stays sharp on high-density screens
+export const renderResultCard = (card: ResultCard): Promise<Blob> => {
+  const scale = 2;
+  const height =
+    HEADER_HEIGHT + card.levels.length * ROW_HEIGHT + FOOTER_HEIGHT;
+  const canvas = document.createElement("canvas");
+  canvas.width = WIDTH * scale;
+  canvas.height = height * scale;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.reject(new Error("Canvas is not supported"));
+  ctx.scale(scale, scale);
+
+  const color = {
+    background: resolveToken(tokens.color.surface),
+    text: resolveToken(tokens.color.surfaceText),
+    muted: resolveToken(tokens.color.textMuted),
+    primary: resolveToken(tokens.color.primary),
+    row: resolveToken(tokens.color.surfaceMuted),
+    onStatus: resolveToken(tokens.color.onPrimary),
+    completed: resolveToken(tokens.color.success),
+    skipped: resolveToken(tokens.color.warning),
+    "timed-out": resolveToken(tokens.color.timedOut),
+    pending: resolveToken(tokens.color.border),
+  };
+
+  ctx.fillStyle = color.background;
+  ctx.fillRect(0, 0, WIDTH, height);
+  ctx.textBaseline = "middle";
+
+  ctx.textAlign = "center";
+  ctx.fillStyle = color.text;
+  ctx.font = `bold 24px ${FONT}`;
+  ctx.fillText(card.title, WIDTH / 2, 44);
+
+  ctx.fillStyle = color.primary;
+  ctx.font = `bold 56px monospace`;
+  ctx.fillText(card.headline, WIDTH / 2, 104);
+
+  if (card.subtitle) {
+    ctx.fillStyle = color.muted;
+    ctx.font = `16px ${FONT}`;
+    ctx.fillText(card.subtitle, WIDTH / 2, 146);
+  }
+
+  // Status dots, as ProgressTracker draws them
+  const dot = 24;
+  const gap = 8;
+  const dotsWidth = card.levels.length * (dot + gap) - gap;
+  card.levels.forEach((level, index) => {
+    const x = (WIDTH - dotsWidth) / 2 + index * (dot + gap) + dot / 2;
+    ctx.fillStyle = color[level.status];
+    ctx.beginPath();
+    ctx.arc(x, 186, dot / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = level.status === "pending" ? color.muted : color.onStatus;
+    ctx.font = `bold 13px ${FONT}`;
+    ctx.fillText(STATUS_SYMBOLS[level.status], x, 187);
+  });
+
+  card.levels.forEach((level, index) => {
+    const y = HEADER_HEIGHT + index * ROW_HEIGHT;
+    ctx.fillStyle = color.row;
+    ctx.fillRect(PADDING, y, WIDTH - PADDING * 2, ROW_HEIGHT - 6);
+    ctx.fillStyle = color[level.status];
+    ctx.fillRect(PADDING, y, 4, ROW_HEIGHT - 6);
+
+    ctx.fillStyle = color.text;
+    ctx.font = `16px ${FONT}`;
+    ctx.textAlign = "left";
+    ctx.fillText(
+      `${index + 1}. ${level.label}`,
+      PADDING + 16,
+      y + (ROW_HEIGHT - 6) / 2
+    );
+    ctx.font = `16px monospace`;
+    ctx.textAlign = "right";
+    ctx.fillText(
+      `${STATUS_SYMBOLS[level.status]} ${level.split ?? "—"}`,
+      WIDTH - PADDING - 12,
+      y + (ROW_HEIGHT - 6) / 2
+    );
+  });
+
+  ctx.fillStyle = color.muted;
+  ctx.font = `13px ${FONT}`;
+  ctx.textAlign = "center";
+  ctx.fillText(card.footer, WIDTH / 2, height - FOOTER_HEIGHT / 2);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode the card")),
+      "image/png"
+    )
+  );
+};
@@ -0,0 +1,48 @@
+import { Rng } from "../types/game.types";
+
+// 32-bit FNV-1a, used to turn labels and date strings into seeds
+export const hashSeed = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const randomSeed = (): number =>
+  Math.floor(Math.random() * 0x100000000) >>> 0;
+
+// Mulberry32: small, fast and good enough for puzzle generation
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+
+  const int = (maxExclusive: number): number =>
+    Math.floor(next() * maxExclusive);
+
+  return {
+    seed: seed >>> 0,
+    next,
+    int,
+    pick: (items) => items[int(items.length)],
+    shuffle: (items) => {
+      // Fisher–Yates; unlike sort(() => Math.random() - 0.5) every
+      // permutation is equally likely
+      const result = [...items];
+      for (let i = result.length - 1; i > 0; i--) {
+        const j = int(i + 1);
+        [result[i], result[j]] = [result[j], result[i]];
+      }
+      return result;
+    },
+    fork: (label) => createRng(hashSeed(`${seed >>> 0}:${label}`)),
+  };
+};
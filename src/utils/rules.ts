@@ -0,0 +1,68 @@
+import { GameRules } from "../types/game.types";
+import { readJson, writeJson } from "./storage";
+
+const STORAGE_KEY = "microgames.rules";
+
+export const DEFAULT_RULES: GameRules = {
+  skipPenaltyMs: 30000,
+  skipDelayMs: 5000,
+  allowSkip: true,
+  rounds: 5,
+  levelTimeLimitMs: null,
+  timeoutPenaltyMs: 15000,
+  mistakePenaltyMs: 0,
+  introClock: "paused",
+};
+
+export const MIN_ROUNDS = 1;
+export const MAX_ROUNDS = 20;
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+// Cleared number inputs arrive as NaN
+const finiteOr = (value: number, fallback: number): number =>
+  Number.isFinite(value) ? value : fallback;
+
+// Fills in fields missing from older saves and keeps values playable
+export const normalizeRules = (rules: Partial<GameRules>): GameRules => {
+  const merged = { ...DEFAULT_RULES, ...rules };
+  return {
+    skipPenaltyMs: Math.max(0, finiteOr(merged.skipPenaltyMs, 0)),
+    skipDelayMs: Math.max(0, finiteOr(merged.skipDelayMs, 0)),
+    allowSkip: merged.allowSkip,
+    rounds: clamp(
+      Math.round(finiteOr(merged.rounds, DEFAULT_RULES.rounds)),
+      MIN_ROUNDS,
+      MAX_ROUNDS
+    ),
+    levelTimeLimitMs:
+      merged.levelTimeLimitMs && merged.levelTimeLimitMs > 0
+        ? merged.levelTimeLimitMs
+        : null,
+    timeoutPenaltyMs: Math.max(0, finiteOr(merged.timeoutPenaltyMs, 0)),
+    mistakePenaltyMs: Math.max(0, finiteOr(merged.mistakePenaltyMs, 0)),
+    introClock: merged.introClock === "running" ? "running" : "paused",
+  };
+};
+
+export const loadRules = (): GameRules =>
+  normalizeRules(readJson<Partial<GameRules>>(STORAGE_KEY, {}));
+
+export const saveRules = (rules: GameRules): void => {
+  writeJson(STORAGE_KEY, normalizeRules(rules));
+};
+
+export const rulesEqual = (a: GameRules, b: GameRules): boolean =>
+  a.skipPenaltyMs === b.skipPenaltyMs &&
+  a.skipDelayMs === b.skipDelayMs &&
+  a.allowSkip === b.allowSkip &&
+  a.rounds === b.rounds &&
+  a.levelTimeLimitMs === b.levelTimeLimitMs &&
+  a.timeoutPenaltyMs === b.timeoutPenaltyMs &&
+  a.mistakePenaltyMs === b.mistakePenaltyMs &&
+  a.introClock === b.introClock;
+
+// Registration order, repeated until there are enough rounds
+export const buildGameOrder = (gameIds: string[], rounds: number): string[] =>
+  Array.from({ length: rounds }, (_, index) => gameIds[index % gameIds.length]);
@@ -0,0 +1,71 @@
+import {
+  GameContainerState,
+  ReplayInput,
+  RunCheckpoint,
+} from "../types/game.types";
+import { readJson, removeKey, writeJson } from "./storage";
+import { normalizeRules } from "./rules";
+
+const STORAGE_KEY = "microgames.checkpoint";
+
+export const createCheckpoint = (
+  state: GameContainerState,
+  now: number,
+  replayInputs: ReplayInput[][]
+): RunCheckpoint => {
+  const index = state.currentLevel - 1;
+  const active = state.levelResults[index];
+
+  // Run clock so far; during a resumed countdown it hasn't restarted yet
+  const clock =
+    state.startTime !== null ? now - state.startTime : state.resumedFrom ?? 0;
+  const levelElapsed =
+    state.gameState === "transition" || active.startedAt === null
+      ? 0
+      : Math.max(0, clock - active.startedAt);
+
+  return {
+    version: 1,
+    savedAt: new Date().toISOString(),
+    seed: state.seed,
+    mode: state.mode,
+    difficultyMode: state.difficultyMode,
+    rules: state.rules,
+    dailyKey: state.dailyKey,
+    dayNumber: state.dayNumber,
+    currentLevel: state.currentLevel,
+    levelResults: state.levelResults,
+    totalTime: state.totalTime,
+    levelElapsed,
+    lives: state.lives,
+    // The active level restarts on resume, so its inputs would not replay
+    replayInputs: state.levelResults
+      .slice(0, index)
+      .map((_, level) => replayInputs[level] ?? []),
+  };
+};
+
+export const saveCheckpoint = (checkpoint: RunCheckpoint): void => {
+  writeJson(STORAGE_KEY, checkpoint);
+};
+
+export const clearCheckpoint = (): void => removeKey(STORAGE_KEY);
+
+// Null when there is nothing to resume, or the save is from an older build
+// or names a microgame that is no longer registered
+export const loadCheckpoint = (gameIds: string[]): RunCheckpoint | null => {
+  const checkpoint = readJson<RunCheckpoint | null>(STORAGE_KEY, null);
+  if (
+    !checkpoint ||
+    checkpoint.version !== 1 ||
+    !Array.isArray(checkpoint.levelResults) ||
+    !Array.isArray(checkpoint.replayInputs) ||
+    !Number.isInteger(checkpoint.currentLevel) ||
+    checkpoint.currentLevel < 1 ||
+    checkpoint.currentLevel > checkpoint.levelResults.length ||
+    !checkpoint.levelResults.every((result) => gameIds.includes(result.gameId))
+  ) {
+    return null;
+  }
+  return { ...checkpoint, rules: normalizeRules(checkpoint.rules) };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { getPersonalBestRun, getRunCategories, isInCategory } from "./runHistory";
+import { DEFAULT_RULES } from "./rules";
+import { RunRecord } from "../types/game.types";
+
+const run = (id: string, changes: Partial<RunRecord> = {}): RunRecord => ({
+  id,
+  date: "2026-01-01T00:00:00.000Z",
+  mode: "standard",
+  difficultyMode: "normal",
+  seed: 1,
+  rules: DEFAULT_RULES,
+  totalTime: 60000,
+  levelResults: [],
+  ...changes,
+});
+
+describe("run categories", () => {
+  const oneRound = { ...DEFAULT_RULES, rounds: 1 };
+  const runs = [
+    run("default-a"),
+    run("short", { rules: oneRound, totalTime: 5000 }),
+    run("default-b", { totalTime: 50000 }),
+    run("legacy", { rules: undefined }),
+    run("hard", { difficultyMode: "hard" }),
+    run("daily", { mode: "daily" }),
+  ];
+
+  it("groups runs by difficulty and rules, most played first", () => {
+    const categories = getRunCategories(runs, "standard");
+    expect(categories).toHaveLength(3);
+    expect(categories[0]).toMatchObject({
+      difficultyMode: "normal",
+      rules: DEFAULT_RULES,
+    });
+    expect(
+      runs.filter((r) => isInCategory(r, categories[0])).map((r) => r.id)
+    ).toEqual(["default-a", "default-b", "legacy"]);
+  });
+
+  it("never ranks a run against runs with other rules", () => {
+    const best = getPersonalBestRun(runs, run("new"));
+    expect(best?.id).toBe("default-b");
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  GameMode,
+  GameRules,
+  RunCategory,
+  RunRecord,
+  RunStore,
+} from "../types/game.types";
+import { readJson, removeKey, writeJson } from "./storage";
+import { DEFAULT_RULES, rulesEqual } from "./rules";
+import { getRoundsCleared } from "./endless";
+
+const STORAGE_KEY = "microgames.runHistory";
+const DB_NAME = "microgames";
+const DB_STORE = "runs";
+
+// Keeps localStorage well under its quota; IndexedDB has no cap
+const MAX_LOCAL_RUNS = 200;
+
+const byNewest = (a: RunRecord, b: RunRecord): number =>
+  b.date.localeCompare(a.date);
+
+export const createLocalStorageRunStore = (): RunStore => ({
+  list: async () => readJson<RunRecord[]>(STORAGE_KEY, []).sort(byNewest),
+  add: async (record) => {
+    const runs = readJson<RunRecord[]>(STORAGE_KEY, []);
+    writeJson(STORAGE_KEY, [record, ...runs].slice(0, MAX_LOCAL_RUNS));
+  },
+  clear: async () => removeKey(STORAGE_KEY),
+});
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbRunStore = (): RunStore => {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!db) {
+      const request = window.indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DB_STORE, { keyPath: "id" });
+      };
+      db = promisifyRequest(request);
+    }
+    return db;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const database = await openDb();
+    return promisifyRequest(
+      run(database.transaction(DB_STORE, mode).objectStore(DB_STORE))
+    );
+  };
+
+  return {
+    list: async () =>
+      (await withStore<RunRecord[]>("readonly", (store) => store.getAll())).sort(
+        byNewest
+      ),
+    add: async (record) => {
+      await withStore("readwrite", (store) => store.put(record));
+    },
+    clear: async () => {
+      await withStore("readwrite", (store) => store.clear());
+    },
+  };
+};
+
+// VITE_RUN_STORE=indexeddb opts into IndexedDB; localStorage is the default
+export const runStore: RunStore =
+  import.meta.env.VITE_RUN_STORE === "indexeddb" && "indexedDB" in window
+    ? createIndexedDbRunStore()
+    : createLocalStorageRunStore();
+
+export const createRunId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Negative when `a` ranks above `b`: endless runs rank by rounds cleared,
+// every other mode (and endless ties) by time
+export const compareRuns = (a: RunRecord, b: RunRecord): number => {
+  if (a.mode === "endless" && b.mode === "endless") {
+    const rounds =
+      getRoundsCleared(b.levelResults) - getRoundsCleared(a.levelResults);
+    if (rounds !== 0) return rounds;
+  }
+  return a.totalTime - b.totalTime;
+};
+
+// Runs only rank against runs played the same way; runs saved before rules
+// were configurable were played under the defaults
+export const isInCategory = (run: RunRecord, category: RunCategory): boolean =>
+  run.mode === category.mode &&
+  run.difficultyMode === category.difficultyMode &&
+  rulesEqual(run.rules ?? DEFAULT_RULES, category.rules ?? DEFAULT_RULES);
+
+// Every difficulty and rule set played in `mode`, most played first
+export const getRunCategories = (
+  runs: RunRecord[],
+  mode: GameMode
+): RunCategory[] => {
+  const counts: { category: RunCategory; count: number }[] = [];
+  runs
+    .filter((run) => run.mode === mode)
+    .forEach((run) => {
+      const match = counts.find(({ category }) => isInCategory(run, category));
+      if (match) match.count += 1;
+      else {
+        counts.push({
+          category: {
+            mode,
+            difficultyMode: run.difficultyMode,
+            rules: run.rules ?? DEFAULT_RULES,
+          },
+          count: 1,
+        });
+      }
+    });
+  return counts
+    .sort((a, b) => b.count - a.count)
+    .map(({ category }) => category);
+};
+
+const seconds = (ms: number): string => `${Math.round(ms / 1000)}s`;
+
+export const formatRulesSummary = (rules: GameRules): string =>
+  [
+    `${rules.rounds} rounds`,
+    rules.allowSkip ? `${seconds(rules.skipPenaltyMs)} skip` : "no skipping",
+    rules.levelTimeLimitMs !== null &&
+      `${seconds(rules.levelTimeLimitMs)} limit`,
+    rules.mistakePenaltyMs > 0 && `${seconds(rules.mistakePenaltyMs)} per miss`,
+    rules.introClock === "running" && "clock runs in intros",
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+// Best run comparable to `record` (same mode, difficulty and rules),
+// excluding the record itself
+export const getPersonalBestRun = (
+  runs: RunRecord[],
+  record: RunCategory & Pick<RunRecord, "id">
+): RunRecord | null =>
+  runs
+    .filter((run) => run.id !== record.id && isInCategory(run, record))
+    .reduce<RunRecord | null>(
+      (best, run) => (best === null || compareRuns(run, best) < 0 ? run : best),
+      null
+    );
@@ -0,0 +1,41 @@
+import {
+  LevelResult,
+  PracticeAttempt,
+  PracticeStats,
+} from "../types/game.types";
+
+// Share of inputs that were correct, or null if nothing was tapped. Runs
+// saved before mistakes were tracked count as no inputs.
+export const getAccuracy = (
+  results: LevelResult | LevelResult[]
+): number | null => {
+  const list = Array.isArray(results) ? results : [results];
+  const hits = list.reduce((sum, result) => sum + (result.hits ?? 0), 0);
+  const mistakes = list.reduce((sum, result) => sum + (result.mistakes ?? 0), 0);
+  return hits + mistakes > 0 ? hits / (hits + mistakes) : null;
+};
+
+export const formatAccuracy = (accuracy: number | null): string =>
+  accuracy === null ? "—" : `${Math.round(accuracy * 100)}%`;
+
+export const getPracticeStats = (
+  attempts: PracticeAttempt[]
+): PracticeStats => {
+  if (attempts.length === 0) {
+    return {
+      solved: 0,
+      averageTime: null,
+      bestTime: null,
+      averageMistakes: null,
+    };
+  }
+
+  const times = attempts.map((attempt) => attempt.solveTime);
+  const mistakes = attempts.reduce((sum, attempt) => sum + attempt.mistakes, 0);
+  return {
+    solved: attempts.length,
+    averageTime: times.reduce((sum, time) => sum + time, 0) / attempts.length,
+    bestTime: Math.min(...times),
+    averageMistakes: mistakes / attempts.length,
+  };
+};
@@ -0,0 +1,26 @@
+// localStorage can throw (private mode, quota, disabled storage), and values
+// written by older builds may not parse; both fall back instead of crashing
+export const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+};
+
+export const writeJson = (key: string, value: unknown): void => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage unavailable; the run still plays, it just isn't remembered
+  }
+};
+
+export const removeKey = (key: string): void => {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // See writeJson
+  }
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from "vitest";
+import { createTelemetryBus, getRunEvents } from "./telemetry";
+import { createGameMachine, gameReducer, LEVEL_INTRO_MS } from "./gameMachine";
+import { createManualClock, createScheduler } from "./scheduler";
+import { DEFAULT_RULES } from "./rules";
+import { GameContainerState, TelemetryEvent } from "../types/game.types";
+
+const GAME_IDS = ["color-match", "odd-one-out"];
+
+describe("createTelemetryBus", () => {
+  it("keeps delivering to other sinks when one throws", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const bus = createTelemetryBus("session");
+    const received: TelemetryEvent[] = [];
+    bus.addSink({
+      name: "broken",
+      handle: () => {
+        throw new Error("boom");
+      },
+    });
+    bus.addSink({ name: "ok", handle: (event) => received.push(event) });
+
+    bus.emit({ name: "pause", data: { level: 1, paused: true } });
+    bus.emit({ name: "pause", data: { level: 1, paused: false } });
+
+    expect(received.map((event) => event.id)).toEqual([1, 2]);
+    expect(received[0].sessionId).toBe("session");
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
+
+describe("getRunEvents", () => {
+  // Steps a run through the real machine, recording every state
+  const playRun = () => {
+    const clock = createManualClock();
+    const machine = createGameMachine(createScheduler(clock), GAME_IDS);
+    const states: GameContainerState[] = [machine.getState()];
+    machine.subscribe(() => states.push(machine.getState()));
+    machine.dispatch({
+      type: "start",
+      setup: {
+        seed: 1,
+        gameIds: GAME_IDS,
+        mode: "standard",
+        difficultyMode: "normal",
+        rules: DEFAULT_RULES,
+        dailyKey: null,
+        dayNumber: null,
+      },
+    });
+    clock.advance(LEVEL_INTRO_MS + 1000);
+    return { clock, machine, states };
+  };
+
+  const eventsOf = (states: GameContainerState[]) =>
+    states
+      .slice(1)
+      .flatMap((next, index) => getRunEvents(states[index], next))
+      .map((event) => event.name);
+
+  it("reports a run from start to finish", () => {
+    const { clock, machine, states } = playRun();
+    machine.dispatch({ type: "input", level: 1, correct: false });
+    machine.dispatch({ type: "finish-level", level: 1, outcome: "skipped" });
+    clock.advance(LEVEL_INTRO_MS + 1000);
+    machine.dispatch({ type: "finish-level", level: 2, outcome: "completed" });
+
+    expect(eventsOf(states)).toEqual([
+      "game_start",
+      "level_start",
+      "mistake",
+      "skip",
+      "level_start",
+      "level_complete",
+      "run_complete",
+    ]);
+  });
+
+  it("reports nothing for a late completion after a skip", () => {
+    const { machine } = playRun();
+    machine.dispatch({ type: "finish-level", level: 1, outcome: "skipped" });
+    const skipped = machine.getState();
+
+    const late = gameReducer(
+      skipped,
+      { type: "finish-level", level: 1, outcome: "completed" },
+      { now: 99999, gameIds: GAME_IDS }
+    );
+    expect(getRunEvents(skipped, late)).toEqual([]);
+  });
+});
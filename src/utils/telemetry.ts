@@ -0,0 +1,212 @@
+import {
+  GameContainerState,
+  TelemetryBus,
+  TelemetryEvent,
+  TelemetryEventInput,
+  TelemetrySink,
+} from "../types/game.types";
+import {
+  createConsoleSink,
+  createHttpSink,
+  createStorageSink,
+} from "./telemetrySinks";
+import { randomSeed } from "./rng";
+
+const RECENT_LIMIT = 200;
+
+// A sink that throws must not take the game down with it
+const safely = (action: () => void): void => {
+  try {
+    action();
+  } catch (error) {
+    console.warn("[telemetry] sink failed", error);
+  }
+};
+
+// randomUUID only exists in secure contexts; a plain-HTTP LAN build must
+// still load
+const createSessionId = (): string =>
+  crypto.randomUUID?.() ??
+  `${Date.now().toString(36)}-${randomSeed().toString(36)}`;
+
+export const createTelemetryBus = (
+  sessionId: string = createSessionId()
+): TelemetryBus => {
+  const sinks: TelemetrySink[] = [];
+  const listeners = new Set<(event: TelemetryEvent) => void>();
+  let recent: TelemetryEvent[] = [];
+  let nextId = 1;
+
+  return {
+    emit: (input) => {
+      const event: TelemetryEvent = {
+        ...input,
+        id: nextId++,
+        sessionId,
+        timestamp: Date.now(),
+      };
+
+      recent = [...recent, event].slice(-RECENT_LIMIT);
+      sinks.forEach((sink) => safely(() => sink.handle(event)));
+      listeners.forEach((listener) => listener(event));
+    },
+    addSink: (sink) => {
+      sinks.push(sink);
+      return () => {
+        const index = sinks.indexOf(sink);
+        if (index >= 0) sinks.splice(index, 1);
+      };
+    },
+    getSinks: () => [...sinks],
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    recent: () => recent,
+    clearRecent: () => {
+      recent = [];
+    },
+    flush: async () => {
+      await Promise.all(sinks.map((sink) => sink.flush?.()));
+    },
+  };
+};
+
+export const telemetry = createTelemetryBus();
+
+// Console in development, a local buffer always, and uploads when an
+// endpoint is configured (npm run telemetry:mock serves one locally)
+export const initTelemetry = (): void => {
+  if (import.meta.env.DEV) telemetry.addSink(createConsoleSink());
+  telemetry.addSink(createStorageSink());
+
+  const url = import.meta.env.VITE_TELEMETRY_URL;
+  if (typeof url === "string" && url) {
+    telemetry.addSink(createHttpSink({ url }));
+  }
+};
+
+// ?debug in the URL shows the telemetry panel
+export const isTelemetryDebugEnabled = (): boolean =>
+  new URLSearchParams(window.location.search).has("debug");
+
+// Events implied by one GameContainer state change. Derived from state
+// rather than emitted from handlers, so a late onComplete that the container
+// ignores is never reported.
+export const getRunEvents = (
+  prev: GameContainerState | null,
+  next: GameContainerState,
+  lastTarget: number | null = null
+): TelemetryEventInput[] => {
+  if (next.gameState === "idle") return [];
+
+  const events: TelemetryEventInput[] = [];
+  const newRun =
+    next.gameState === "countdown" && prev?.gameState !== "countdown";
+
+  const levelStart = (level: number): TelemetryEventInput => {
+    const result = next.levelResults[level - 1];
+    return {
+      name: "level_start",
+      data: { level, gameId: result.gameId, difficulty: result.difficulty },
+    };
+  };
+
+  if (newRun) {
+    events.push({
+      name: "game_start",
+      data: {
+        seed: next.seed,
+        mode: next.mode,
+        difficultyMode: next.difficultyMode,
+        levels: next.mode === "endless" ? 0 : next.levelResults.length,
+      },
+    });
+  } else if (prev?.gameState === "playing") {
+    events.push(...getLevelEvents(prev, next, lastTarget));
+  }
+
+  // Levels start when play begins, after the countdown or transition
+  if (
+    next.gameState === "playing" &&
+    (prev?.gameState !== "playing" ||
+      prev.currentLevel !== next.currentLevel)
+  ) {
+    events.push(levelStart(next.currentLevel));
+  }
+
+  if (prev && next.isPaused !== prev.isPaused) {
+    events.push({
+      name: "pause",
+      data: { level: prev.currentLevel, paused: next.isPaused },
+    });
+  }
+
+  if (next.gameState === "completed" && prev?.gameState !== "completed") {
+    events.push({
+      name: "run_complete",
+      data: {
+        seed: next.seed,
+        mode: next.mode,
+        totalTime: next.totalTime,
+        completed: next.levelResults.filter((result) => result.completed)
+          .length,
+        skipped: next.levelResults.filter((result) => result.skipped).length,
+        timedOut: next.levelResults.filter((result) => result.timedOut).length,
+        mistakes: next.levelResults.reduce(
+          (sum, result) => sum + result.mistakes,
+          0
+        ),
+      },
+    });
+  }
+
+  return events;
+};
+
+// Mistakes and the outcome of the level being played in `prev`
+const getLevelEvents = (
+  prev: GameContainerState,
+  next: GameContainerState,
+  lastTarget: number | null
+): TelemetryEventInput[] => {
+  const events: TelemetryEventInput[] = [];
+  const level = prev.currentLevel;
+  const before = prev.levelResults[level - 1];
+  const after = next.levelResults[level - 1];
+
+  if (after.mistakes > before.mistakes) {
+    events.push({
+      name: "mistake",
+      data: { level, gameId: after.gameId, target: lastTarget },
+    });
+  }
+
+  if (after.endedAt !== null && before.endedAt === null) {
+    events.push(
+      after.completed
+        ? {
+            name: "level_complete",
+            data: {
+              level,
+              gameId: after.gameId,
+              timeSpent: after.timeSpent,
+              mistakes: after.mistakes,
+            },
+          }
+        : {
+            name: after.timedOut ? "timeout" : "skip",
+            data: {
+              level,
+              gameId: after.gameId,
+              timeSpent: after.timeSpent,
+              penalty: after.penaltyTime - before.penaltyTime,
+            },
+          }
+    );
+  }
+
+  return events;
+};
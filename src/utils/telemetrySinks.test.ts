@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHttpSink, createStorageSink } from "./telemetrySinks";
+import { TelemetryEvent } from "../types/game.types";
+
+const QUEUE_KEY = "test.queue";
+
+// The sinks only need localStorage, online/pagehide events and onLine
+const stubBrowser = () => {
+  const items = new Map<string, string>();
+  const win = Object.assign(new EventTarget(), {
+    localStorage: {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+      removeItem: (key: string) => void items.delete(key),
+    },
+  });
+  const nav = { onLine: true };
+  vi.stubGlobal("window", win);
+  vi.stubGlobal("navigator", nav);
+  return { win, nav, items };
+};
+
+const event = (id: number): TelemetryEvent => ({
+  name: "pause",
+  data: { level: 1, paused: true },
+  id,
+  sessionId: "test",
+  timestamp: id,
+});
+
+const respond = (status: number) =>
+  Promise.resolve(new Response(null, { status }));
+
+const createSink = (fetch: typeof globalThis.fetch) =>
+  createHttpSink({
+    url: "http://localhost:8788/events",
+    storageKey: QUEUE_KEY,
+    retryBaseMs: 1000,
+    fetch,
+  });
+
+const sentBatches = (fetch: ReturnType<typeof vi.fn>): number[][] =>
+  fetch.mock.calls.map(([, init]) =>
+    JSON.parse((init as RequestInit).body as string).events.map(
+      (sent: TelemetryEvent) => sent.id
+    )
+  );
+
+let browser: ReturnType<typeof stubBrowser>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  browser = stubBrowser();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("createHttpSink", () => {
+  it("sends a batch once 20 events are queued", async () => {
+    const fetch = vi.fn(() => respond(200));
+    const sink = createSink(fetch);
+
+    for (let id = 1; id <= 19; id++) sink.handle(event(id));
+    expect(fetch).not.toHaveBeenCalled();
+
+    sink.handle(event(20));
+    await sink.flush?.();
+    expect(sentBatches(fetch)).toEqual([
+      Array.from({ length: 20 }, (_, index) => index + 1),
+    ]);
+    expect(sink.describe?.()).toMatch(/^0 queued/);
+  });
+
+  it.each([
+    ["a 5xx", () => respond(503)],
+    ["a 408", () => respond(408)],
+    ["a 429", () => respond(429)],
+    ["a network error", () => Promise.reject(new TypeError("Failed to fetch"))],
+  ])("retries with backoff after %s", async (_, fail) => {
+    const fetch = vi
+      .fn<typeof globalThis.fetch>()
+      .mockImplementationOnce(fail)
+      .mockImplementationOnce(fail)
+      .mockImplementation(() => respond(200));
+    const sink = createSink(fetch);
+    sink.handle(event(1));
+
+    await sink.flush?.();
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    // The second retry waits twice as long
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(sink.describe?.()).toMatch(/^0 queued/);
+  });
+
+  it("drops a batch the endpoint rejects with another 4xx", async () => {
+    const fetch = vi.fn(() => respond(400));
+    const sink = createSink(fetch);
+    sink.handle(event(1));
+
+    await sink.flush?.();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(sink.describe?.()).toMatch(/^0 queued.*batch dropped/);
+  });
+
+  it("keeps the queue while offline and sends it when back online", async () => {
+    browser.nav.onLine = false;
+    const fetch = vi.fn(() => respond(200));
+    const sink = createSink(fetch);
+    for (let id = 1; id <= 20; id++) sink.handle(event(id));
+    await sink.flush?.();
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(JSON.parse(browser.items.get(QUEUE_KEY) ?? "[]")).toHaveLength(20);
+    // A reload picks the persisted queue back up
+    expect(createSink(fetch).describe?.()).toMatch(/^20 queued.*\(offline\)/);
+
+    browser.nav.onLine = true;
+    browser.win.dispatchEvent(new Event("online"));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sentBatches(fetch)[0]).toHaveLength(20);
+    expect(JSON.parse(browser.items.get(QUEUE_KEY) ?? "[]")).toEqual([]);
+  });
+});
+
+describe("createStorageSink", () => {
+  it("batches writes rather than rewriting the buffer per event", async () => {
+    const sink = createStorageSink("test.buffer", 500, 2000);
+    sink.handle(event(1));
+    sink.handle(event(2));
+    expect(browser.items.has("test.buffer")).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(JSON.parse(browser.items.get("test.buffer") ?? "[]")).toHaveLength(2);
+
+    sink.handle(event(3));
+    browser.win.dispatchEvent(new Event("pagehide"));
+    expect(JSON.parse(browser.items.get("test.buffer") ?? "[]")).toHaveLength(3);
+  });
+});
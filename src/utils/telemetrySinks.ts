@@ -0,0 +1,143 @@
+import {
+  HttpSinkOptions,
+  TelemetryEvent,
+  TelemetrySink,
+} from "../types/game.types";
+import { readJson, writeJson } from "./storage";
+
+export const createConsoleSink = (): TelemetrySink => ({
+  name: "console",
+  handle: (event) => console.debug(`[telemetry] ${event.name}`, event.data),
+});
+
+// Rolling buffer of the latest events, kept across reloads for inspection.
+// Writes are batched so taps during play don't each serialize the buffer.
+export const createStorageSink = (
+  storageKey = "microgames.telemetry",
+  limit = 500,
+  writeDelayMs = 2000
+): TelemetrySink => {
+  let buffer = readJson<TelemetryEvent[]>(storageKey, []);
+  if (!Array.isArray(buffer)) buffer = [];
+  let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const write = (): void => {
+    if (writeTimer === null) return;
+    clearTimeout(writeTimer);
+    writeTimer = null;
+    writeJson(storageKey, buffer);
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("pagehide", write);
+  }
+
+  return {
+    name: "localStorage",
+    handle: (event) => {
+      buffer = [...buffer, event].slice(-limit);
+      writeTimer ??= setTimeout(write, writeDelayMs);
+    },
+    flush: async () => write(),
+    describe: () => `${buffer.length}/${limit} buffered in ${storageKey}`,
+  };
+};
+
+const isOffline = (): boolean =>
+  typeof navigator !== "undefined" && navigator.onLine === false;
+
+// Client errors other than timeouts and rate limits won't succeed on retry
+const isRetryable = (status: number): boolean =>
+  status >= 500 || status === 408 || status === 429;
+
+// POSTs `{ events }` in batches. Unsent events are persisted, so anything
+// queued while offline or during an outage goes out on a later visit.
+export const createHttpSink = ({
+  url,
+  batchSize = 20,
+  flushIntervalMs = 10000,
+  maxRetries = 5,
+  retryBaseMs = 1000,
+  maxQueued = 1000,
+  storageKey = "microgames.telemetryQueue",
+  fetch: send = (...args) => fetch(...args),
+}: HttpSinkOptions): TelemetrySink => {
+  let queue = readJson<TelemetryEvent[]>(storageKey, []);
+  if (!Array.isArray(queue)) queue = [];
+  let inFlight: Promise<void> | null = null;
+  let attempts = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastError: string | null = null;
+
+  const persist = (): void => writeJson(storageKey, queue);
+
+  const scheduleRetry = (): void => {
+    if (retryTimer !== null || attempts > maxRetries) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void flush();
+    }, retryBaseMs * 2 ** (attempts - 1));
+  };
+
+  const sendBatches = async (): Promise<void> => {
+    while (queue.length > 0 && !isOffline()) {
+      const batch = queue.slice(0, batchSize);
+      try {
+        const response = await send(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ events: batch }),
+          keepalive: true,
+        });
+        if (!response.ok && isRetryable(response.status)) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        lastError = response.ok
+          ? null
+          : `HTTP ${response.status}, batch dropped`;
+      } catch (error) {
+        attempts += 1;
+        lastError = error instanceof Error ? error.message : String(error);
+        scheduleRetry();
+        return;
+      }
+
+      // Delivered (or rejected for good); either way it leaves the queue
+      const sent = new Set(batch);
+      queue = queue.filter((event) => !sent.has(event));
+      persist();
+      attempts = 0;
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    inFlight ??= sendBatches().finally(() => {
+      inFlight = null;
+    });
+    return inFlight;
+  };
+
+  // The interval resets the retry budget, so outages are retried forever at
+  // a slow pace
+  setInterval(() => {
+    attempts = 0;
+    void flush();
+  }, flushIntervalMs);
+  if (typeof window !== "undefined") {
+    window.addEventListener("online", () => void flush());
+  }
+
+  return {
+    name: "http",
+    handle: (event) => {
+      queue = [...queue, event].slice(-maxQueued);
+      persist();
+      if (queue.length >= batchSize) void flush();
+    },
+    flush,
+    describe: () =>
+      `${queue.length} queued for ${url}` +
+      (isOffline() ? " (offline)" : "") +
+      (lastError ? `, last error: ${lastError}` : ""),
+  };
+};
@@ -0,0 +1,38 @@
+import { LevelResult, LevelSplit } from "../types/game.types";
+
+// Speedrun-style splits for every finished level, in play order
+export const computeSplits = (levelResults: LevelResult[]): LevelSplit[] => {
+  const splits: LevelSplit[] = [];
+  let penalties = 0;
+
+  for (const result of levelResults) {
+    // Runs saved before splits were tracked have no endedAt at all
+    if (typeof result.endedAt !== "number") break;
+    penalties += result.penaltyTime;
+    splits.push({
+      gameId: result.gameId,
+      segment: result.timeSpent + result.penaltyTime,
+      cumulative: result.endedAt + penalties,
+    });
+  }
+
+  return splits;
+};
+
+// Cumulative delta against the personal best at each level. Levels are only
+// comparable when both runs played the same game at that position.
+export const getSplitDeltas = (
+  splits: LevelSplit[],
+  bestSplits: LevelSplit[]
+): (number | null)[] =>
+  splits.map((split, index) => {
+    const best = bestSplits[index];
+    return best && best.gameId === split.gameId
+      ? split.cumulative - best.cumulative
+      : null;
+  });
+
+export const formatDelta = (milliseconds: number): string => {
+  const sign = milliseconds < 0 ? "−" : "+";
+  return `${sign}${(Math.abs(milliseconds) / 1000).toFixed(2)}`;
+};